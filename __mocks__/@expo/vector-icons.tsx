@@ -0,0 +1,9 @@
+import * as React from 'react';
+import { Text, type TextProps } from 'react-native';
+
+// Renders the icon name, as the icon fonts aren't available in tests
+const Icon = ({ name, ...props }: TextProps & { name: string }) => (
+  <Text {...props}>{name}</Text>
+);
+
+export const MaterialCommunityIcons = Icon;
@@ -117,7 +117,7 @@ const ControlledExample = () => {
         label="Example"
         options={simpleOptions}
         value={selected}
-        noneOption={false}
+        nullable={false}
         onSelection={(option) => option && setSelected(option)}
         style={styles.inputGroup}
       />
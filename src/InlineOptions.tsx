@@ -0,0 +1,179 @@
+import * as React from 'react';
+
+import { StyleSheet, View, type TextStyle } from 'react-native';
+
+import { useTheme, Text, Chip } from 'react-native-paper';
+
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+
+import { ListItem } from './ListItem';
+import { optionCompare } from './util';
+
+export type InlineOptionsProps<T extends NonNullable<any>> = {
+  options?: ReadonlyArray<T>;
+  selected?: T | T[];
+
+  /** Renders options as a list of rows, or as a wrapping set of filter chips */
+  mode: 'list' | 'chips';
+
+  /** Specifies if multiple options may be selected, for indicators and accessibility roles */
+  multi?: boolean;
+
+  /** Indicator rendered for the selection state of each row in `list` mode */
+  indicator?: 'checkbox' | 'radio' | 'check' | 'none';
+
+  label?: string;
+  disabled?: boolean;
+
+  valueFn: (option: T) => string;
+  labelFn: (option: T) => string;
+  disabledFn?: (option: T) => boolean;
+  select?: (option: T) => void;
+  deselect?: (option: T) => void;
+
+  /** testID to be used on tests. */
+  testID?: string;
+};
+
+/** Renders all options directly in the layout, in place of an anchor and menu */
+export const InlineOptions = <T extends NonNullable<any>>(
+  props: InlineOptionsProps<T>
+) => {
+  const {
+    options,
+    selected,
+    mode,
+    multi = false,
+    indicator = multi ? 'checkbox' : 'radio',
+    label,
+    disabled = false,
+    valueFn,
+    labelFn,
+    disabledFn,
+    select,
+    deselect,
+    testID,
+  } = props;
+
+  const paperTheme = useTheme();
+
+  const styles = React.useMemo(() => {
+    return StyleSheet.create({
+      label: {
+        marginBottom: 8,
+        color: disabled
+          ? paperTheme.colors.onSurfaceDisabled
+          : paperTheme.colors.onSurfaceVariant,
+      },
+      chips: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+      },
+    });
+  }, [paperTheme, disabled]);
+
+  const isOptionSelected = (option: T) =>
+    Array.isArray(selected)
+      ? selected.some((opt) => optionCompare(option, opt))
+      : optionCompare(option, selected);
+
+  const isOptionDisabled = (option: T) =>
+    disabled || (disabledFn ? disabledFn(option) : false);
+
+  const toggle = (option: T) =>
+    isOptionSelected(option)
+      ? deselect && deselect(option)
+      : select && select(option);
+
+  const renderListItem = (option: T) => {
+    const isSelected = isOptionSelected(option);
+    const isDisabled = isOptionDisabled(option);
+
+    const iconColor = isDisabled
+      ? paperTheme.colors.onSurfaceDisabled
+      : isSelected
+      ? paperTheme.colors.primary
+      : paperTheme.colors.onSurfaceVariant;
+
+    const controlIcon =
+      indicator === 'checkbox'
+        ? isSelected
+          ? 'checkbox-marked'
+          : 'checkbox-blank-outline'
+        : indicator === 'radio'
+        ? isSelected
+          ? 'radiobox-marked'
+          : 'radiobox-blank'
+        : undefined;
+
+    const labelStyle: TextStyle = {
+      color: isDisabled
+        ? paperTheme.colors.onSurfaceDisabled
+        : paperTheme.colors.onSurface,
+    };
+
+    return (
+      <ListItem
+        key={valueFn(option)}
+        onPress={() => toggle(option)}
+        disabled={isDisabled}
+        leadingContent={
+          controlIcon ? (
+            <Icon name={controlIcon} size={18} color={iconColor} />
+          ) : null
+        }
+        trailingContent={
+          indicator === 'check' && isSelected ? (
+            <Icon name="check" size={24} color={iconColor} />
+          ) : null
+        }
+        accessibilityRole={multi ? 'checkbox' : 'radio'}
+        accessibilityState={{ checked: isSelected, disabled: isDisabled }}
+        testID={testID ? `${testID}-option-${valueFn(option)}` : undefined}
+      >
+        <Text variant="bodyMedium" style={labelStyle}>
+          {labelFn(option)}
+        </Text>
+      </ListItem>
+    );
+  };
+
+  const renderChip = (option: T) => {
+    const isSelected = isOptionSelected(option);
+    const isDisabled = isOptionDisabled(option);
+
+    return (
+      <Chip
+        key={valueFn(option)}
+        mode="outlined"
+        selected={isSelected}
+        disabled={isDisabled}
+        onPress={() => toggle(option)}
+        accessibilityRole={multi ? 'checkbox' : 'radio'}
+        accessibilityState={{ checked: isSelected, disabled: isDisabled }}
+        testID={testID ? `${testID}-option-${valueFn(option)}` : undefined}
+      >
+        {labelFn(option)}
+      </Chip>
+    );
+  };
+
+  return (
+    <View testID={testID}>
+      {label ? (
+        <Text variant="labelLarge" style={styles.label}>
+          {label}
+        </Text>
+      ) : null}
+
+      {mode === 'chips' ? (
+        <View style={styles.chips}>{options?.map(renderChip)}</View>
+      ) : (
+        <View accessibilityRole="list">{options?.map(renderListItem)}</View>
+      )}
+    </View>
+  );
+};
+
+export default InlineOptions;
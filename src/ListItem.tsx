@@ -71,8 +71,19 @@ export const ListItem = ({ variant = 'one-line', ...props }: ListItemProps) => {
     },
   });
 
+  // Without a touchable wrapper, apply identifying props to the item itself
+  const itemProps =
+    onPress === undefined
+      ? {
+          testID: touchableProps.testID,
+          accessibilityRole: touchableProps.accessibilityRole,
+          accessibilityState: touchableProps.accessibilityState,
+          accessibilityLabel: touchableProps.accessibilityLabel,
+        }
+      : {};
+
   const item = (
-    <View style={styles[variant]}>
+    <View style={styles[variant]} {...itemProps}>
       {leadingContent ? (
         <View style={styles.leadingContent}>{leadingContent}</View>
       ) : null}
@@ -6,8 +6,11 @@ import {
   type ViewStyle,
   View,
   FlatList,
+  SectionList,
   type ListRenderItemInfo,
+  type SectionListData,
   useWindowDimensions,
+  Platform,
 } from 'react-native';
 
 import {
@@ -17,18 +20,29 @@ import {
   Button,
   Portal,
   Modal,
+  Searchbar,
+  ActivityIndicator,
+  Checkbox,
 } from 'react-native-paper';
 
 import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
 
 import { ListItem } from './ListItem';
-import { optionCompare } from './util';
+import type { PaperSelectOptionState } from './PaperSelect';
+import { useAnchorLayout } from './useAnchorLayout';
+import {
+  optionCompare,
+  getDropdownPlacement,
+  groupOptions,
+  type OptionSection,
+} from './util';
+
+type IconName = React.ComponentProps<typeof Icon>['name'];
 
-type MenuLayout = {
-  top: number;
-  left: number;
-  width: number;
-  height: number;
+type TreeRow<T> = {
+  option: T;
+  depth: number;
+  hasChildren: boolean;
 };
 
 export type ModalMenuProps<T extends NonNullable<any>> = {
@@ -44,21 +58,120 @@ export type ModalMenuProps<T extends NonNullable<any>> = {
    */
   noneOption?: string | false;
 
+  /**
+   * Permits clearing the selection, with the "none" option and "Clear" button
+   *
+   * @defaultValue true
+   */
+  nullable?: boolean;
+
   label?: string;
-  checkboxes?: boolean;
-  mode?: 'modal' | 'dropdown';
+
+  /** Specifies if the menu permits multiple selection, for accessibility roles */
+  multi?: boolean;
+
+  /** Indicator rendered for the selection state of each option */
+  indicator?: 'checkbox' | 'radio' | 'check' | 'none';
+
+  /** Disables unselected options, and shows a counter in the header, once reached */
+  maxSelected?: number;
+
+  /** Groups options under sticky section headers */
+  groupBy?: (option: T) => string;
+
+  /** Renders a toggle in each section header to select all in the group */
+  groupSelectAll?: boolean;
+
+  /** Identifies the options list, for `aria-controls` on the anchor with react-native-web */
+  listboxId?: string;
+
+  /** Option highlighted with the keyboard, scrolled into view */
+  highlighted?: T;
+
+  /** Renders options as an expandable tree when defined */
+  childrenFn?: (option: T) => ReadonlyArray<T> | undefined;
+
+  /** Tri-state selection of options, and their descendants, in a multi-select tree */
+  getTreeStatus?: (
+    ...options: T[]
+  ) => 'checked' | 'unchecked' | 'indeterminate';
+
+  /** Toggles options and their descendants in a multi-select tree */
+  toggleTreeOptions?: (...options: T[]) => void;
+
+  /** Renders a row above the options to select or deselect all of them */
+  selectAll?: boolean;
+  selectAllText?: string;
+
+  /** Renders the menu as a centered dialog, a dropdown below the anchor, or a dialog filling the window */
+  mode?: 'modal' | 'dropdown' | 'fullscreen';
+
+  /** Maximum height of the dropdown, which scrolls when its options don't fit */
+  maxDropdownHeight?: number;
+
+  /** Renders a search field above the options */
+  searchable?: boolean;
+  searchPlaceholder?: string;
+  query?: string;
+  onQueryChange?: (query: string) => void;
+
+  /** Shows a loading indicator in place of the options */
+  loading?: boolean;
+
+  /** Shows a loading indicator below the options */
+  loadingMore?: boolean;
+
+  /** Called when the end of the options list is reached */
+  onEndReached?: () => void;
+
+  /** Shows an error row with a retry action in place of the options */
+  errorText?: string;
+  onRetry?: () => void;
+
+  /** Text shown when there are no options */
+  emptyText?: string;
+
+  /** Renders an option to create an option from the query if defined */
+  createLabel?: string;
+  creating?: boolean;
+  onCreate?: () => void;
 
   valueFn: (option: T) => string;
   labelFn: (option: T) => string;
+  disabledFn?: (option: T) => boolean;
+  descriptionFn?: (option: T) => string | undefined;
+  iconFn?: (option: T) => string | undefined;
   select?: (option: T) => void;
   deselect?: (option: T) => void;
+  selectMany?: (options: T[]) => void;
+  deselectMany?: (options: T[]) => void;
   clearSelected?: () => void;
   onDismiss?: () => void;
+  onConfirm?: () => void;
+
+  /** Renders a "Cancel" button in the modal footer if defined */
+  onCancel?: () => void;
+
+  /** Renders each option in place of the default list item */
+  renderOption?: (state: PaperSelectOptionState<T>) => React.ReactElement;
+
+  /** Renders in place of the default modal header */
+  renderHeader?: () => React.ReactNode;
+
+  /** Renders in place of the default modal footer */
+  renderFooter?: () => React.ReactNode;
+
+  /** Renders in place of the default row when there are no options */
+  renderEmpty?: () => React.ReactNode;
 
   /** testID to be used on tests. */
   testID?: string;
 } & React.PropsWithChildren;
 
+/** Identifies an option in the options list, for `aria-activedescendant` */
+export const getOptionId = (listboxId: string, value: string) =>
+  `${listboxId}-option-${value}`;
+
 export const ModalMenu = <T extends NonNullable<any>>(
   props: ModalMenuProps<T>
 ) => {
@@ -67,61 +180,73 @@ export const ModalMenu = <T extends NonNullable<any>>(
     selected,
     visible = false,
     noneOption,
+    nullable = true,
     label,
-    checkboxes = false,
+    multi = false,
+    indicator = 'none',
+    maxSelected,
+    groupBy,
+    groupSelectAll = false,
+    selectAll = false,
+    selectAllText,
+    listboxId,
+    highlighted,
+    childrenFn,
+    getTreeStatus,
+    toggleTreeOptions,
     mode = 'modal',
+    maxDropdownHeight = 300,
+    searchable = false,
+    searchPlaceholder,
+    query = '',
+    onQueryChange,
+    loading = false,
+    loadingMore = false,
+    onEndReached,
+    errorText,
+    onRetry,
+    emptyText,
+    createLabel,
+    creating = false,
+    onCreate,
     valueFn,
     labelFn,
+    disabledFn,
+    descriptionFn,
+    iconFn,
     select,
     deselect,
+    selectMany,
+    deselectMany,
     clearSelected,
     onDismiss,
+    onConfirm,
+    onCancel,
+    renderOption,
+    renderHeader,
+    renderFooter,
+    renderEmpty,
     children,
     testID,
   } = props;
 
   const anchorRef = React.useRef<View>(null);
   const portalRef = React.useRef<View>(null);
-  const [menuLayout, setMenuLayout] = React.useState<MenuLayout | undefined>();
+
+  // Measure anchor layout relative to portal while the dropdown is open
+  const { anchor: menuLayout, containerHeight: portalHeight } = useAnchorLayout(
+    {
+      anchorRef,
+      containerRef: portalRef,
+      active: visible && mode === 'dropdown',
+    }
+  );
   const deferredMenuLayout = React.useDeferredValue(menuLayout);
 
   const paperTheme = useTheme();
 
   const dimensions = useWindowDimensions();
 
-  // Measure ideal menu layout relative to portal
-  const layoutMenu = React.useCallback(() => {
-    if (portalRef.current !== null) {
-      anchorRef.current?.measureLayout(
-        portalRef.current,
-        (left, top, width, height) =>
-          setMenuLayout({
-            left,
-            top,
-            width,
-            height,
-          }),
-
-        // onFail
-        () => {
-          // TODO: measureInWindow won't account for scrolling position
-          anchorRef.current?.measureInWindow((x, y, width, height) => {
-            setMenuLayout({
-              left: x,
-              top: y,
-              width,
-              height,
-            });
-          });
-        }
-      );
-    }
-  }, [anchorRef, portalRef]);
-
-  // Handle menu layout changes due to changing window dimensions
-  // TODO: also on menu visible: measureLayout not working on mobile...
-  React.useLayoutEffect(layoutMenu, [visible, dimensions, layoutMenu]);
-
   const styles = React.useMemo(() => {
     return StyleSheet.create({
       modalWrapper: {
@@ -135,10 +260,22 @@ export const ModalMenu = <T extends NonNullable<any>>(
         borderBottomEndRadius: 4,
         elevation: 3,
       },
+      dropdownAbove: {
+        borderTopStartRadius: 4,
+        borderTopEndRadius: 4,
+        borderBottomStartRadius: 0,
+        borderBottomEndRadius: 0,
+      },
       noneOptionText: {
         fontStyle: 'italic',
         color: paperTheme.colors.onSurfaceDisabled,
       },
+      emptyText: {
+        color: paperTheme.colors.onSurfaceVariant,
+      },
+      errorText: {
+        color: paperTheme.colors.error,
+      },
       // TODO: position relative to window in center, set max height
       modalStyle: {
         flexGrow: 0,
@@ -149,10 +286,55 @@ export const ModalMenu = <T extends NonNullable<any>>(
         borderRadius: 28,
         elevation: 3,
       },
+      fullScreenStyle: {
+        height: '100%',
+        justifyContent: 'flex-start',
+        padding: 24,
+        backgroundColor: paperTheme.colors.surface,
+      },
       modalHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
         marginBottom: 16,
+      },
+      modalHeaderText: {
+        flex: 1,
         color: paperTheme.colors.onSurface,
       },
+      counterText: {
+        color: paperTheme.colors.onSurfaceVariant,
+      },
+      highlighted: {
+        backgroundColor: paperTheme.colors.surfaceVariant,
+      },
+      expanderSpacer: {
+        width: 24,
+      },
+      leadingIcons: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 16,
+      },
+      descriptionText: {
+        color: paperTheme.colors.onSurfaceVariant,
+      },
+      descriptionTextDisabled: {
+        color: paperTheme.colors.onSurfaceDisabled,
+      },
+      sectionHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        minHeight: 40,
+        paddingHorizontal: 16,
+        backgroundColor: paperTheme.colors.surface,
+      },
+      sectionHeaderText: {
+        color: paperTheme.colors.primary,
+      },
+      searchbar: {
+        marginVertical: 8,
+      },
       modalFooter: {
         flexDirection: 'row-reverse',
         marginTop: 16,
@@ -160,80 +342,549 @@ export const ModalMenu = <T extends NonNullable<any>>(
     });
   }, [paperTheme]);
 
-  // Renders FlatList items for each option in `modal` mode
-  const renderModalItem = ({ item: option }: ListRenderItemInfo<T>) => {
-    const isSelected = Array.isArray(selected)
+  const selectionCount = Array.isArray(selected) ? selected.length : 0;
+
+  const maxReached = maxSelected !== undefined && selectionCount >= maxSelected;
+
+  // Options that can be selected at all, regardless of the selection limit
+  const isOptionSelectable = (option: T) =>
+    !(disabledFn ? disabledFn(option) : false);
+
+  const isOptionDisabled = (option: T) =>
+    !isOptionSelectable(option) || (maxReached && !isOptionSelected(option));
+
+  const isOptionSelected = (option: T) =>
+    Array.isArray(selected)
       ? selected.some((opt) => optionCompare(option, opt))
       : optionCompare(option, selected);
 
-    const icon = checkboxes ? (
-      isSelected ? (
-        <Icon
-          name="checkbox-marked"
-          size={18}
-          color={paperTheme.colors.primary}
-        />
-      ) : (
+  const sections = React.useMemo(
+    () =>
+      groupBy === undefined ? undefined : groupOptions(options ?? [], groupBy),
+    [options, groupBy]
+  );
+
+  const listRef = React.useRef<FlatList<T>>(null);
+  const sectionListRef = React.useRef<SectionList<T, OptionSection<T>>>(null);
+
+  // Keep the highlighted option in view while moving with the keyboard
+  React.useEffect(() => {
+    if (highlighted === undefined || childrenFn !== undefined) {
+      return;
+    }
+
+    const isHighlighted = (option: T) => optionCompare(option, highlighted);
+
+    if (sections === undefined) {
+      const index = options?.findIndex(isHighlighted) ?? -1;
+
+      if (index >= 0) {
+        listRef.current?.scrollToIndex({ index, viewPosition: 0.5 });
+      }
+
+      return;
+    }
+
+    sections.forEach((section, sectionIndex) => {
+      const index = section.data.findIndex(isHighlighted);
+
+      if (index >= 0) {
+        sectionListRef.current?.scrollToLocation({
+          sectionIndex,
+          // Item indexes count the section header
+          itemIndex: index + 1,
+          viewPosition: 0.5,
+        });
+      }
+    });
+  }, [highlighted, options, sections, childrenFn]);
+
+  // Use listbox semantics on web, and the native roles screen readers announce state for
+  const listProps: Record<string, unknown> =
+    Platform.OS === 'web'
+      ? {
+          'role': 'listbox',
+          'nativeID': listboxId,
+          'aria-multiselectable': multi,
+        }
+      : { accessibilityRole: 'list' };
+
+  const getOptionProps = (option: T): Record<string, unknown> =>
+    Platform.OS === 'web'
+      ? {
+          role: 'option',
+          nativeID: listboxId
+            ? getOptionId(listboxId, valueFn(option))
+            : undefined,
+        }
+      : { accessibilityRole: multi ? 'checkbox' : 'radio' };
+
+  const [expanded, setExpanded] = React.useState<T[]>([]);
+
+  const isExpanded = (option: T) =>
+    expanded.some((opt) => optionCompare(opt, option));
+
+  const toggleExpanded = (option: T) =>
+    setExpanded((current) =>
+      current.some((opt) => optionCompare(opt, option))
+        ? current.filter((opt) => !optionCompare(opt, option))
+        : current.concat(option)
+    );
+
+  // Flatten the tree into rows, descending into expanded options only
+  const treeRows = React.useMemo(() => {
+    if (childrenFn === undefined) {
+      return undefined;
+    }
+
+    const rows: TreeRow<T>[] = [];
+
+    const addRows = (rowOptions: ReadonlyArray<T>, depth: number) =>
+      rowOptions.forEach((option) => {
+        const childOptions = childrenFn(option) ?? [];
+
+        rows.push({ option, depth, hasChildren: childOptions.length > 0 });
+
+        if (
+          childOptions.length > 0 &&
+          expanded.some((opt) => optionCompare(opt, option))
+        ) {
+          addRows(childOptions, depth + 1);
+        }
+      });
+
+    addRows(options ?? [], 0);
+
+    return rows;
+  }, [options, childrenFn, expanded]);
+
+  // Renders FlatList items for each option in `modal` mode
+  const renderModalItem = ({ item: option, index }: ListRenderItemInfo<T>) =>
+    renderOptionItem(option, index);
+
+  // Renders FlatList items for each visible option in a tree
+  const renderTreeItem = ({
+    item: row,
+    index,
+  }: ListRenderItemInfo<TreeRow<T>>) =>
+    renderOptionItem(row.option, index, row);
+
+  const renderOptionItem = (option: T, index: number, row?: TreeRow<T>) => {
+    const treeStatus = getTreeStatus && getTreeStatus(option);
+    const isSelected = treeStatus
+      ? treeStatus === 'checked'
+      : isOptionSelected(option);
+    const isDisabled = isOptionDisabled(option);
+    const isRowExpanded = row?.hasChildren ? isExpanded(option) : undefined;
+
+    const onPress = () =>
+      toggleTreeOptions
+        ? toggleTreeOptions(option)
+        : isSelected
+        ? deselect && deselect(option)
+        : select && select(option);
+
+    if (renderOption) {
+      return renderOption({
+        option,
+        selected: isSelected,
+        disabled: isDisabled,
+        onPress,
+        index,
+      });
+    }
+    const description = descriptionFn && descriptionFn(option);
+    const optionIcon = iconFn && iconFn(option);
+
+    const controlIcon =
+      indicator === 'checkbox'
+        ? treeStatus === 'indeterminate'
+          ? 'minus-box'
+          : isSelected
+          ? 'checkbox-marked'
+          : 'checkbox-blank-outline'
+        : indicator === 'radio'
+        ? isSelected
+          ? 'radiobox-marked'
+          : 'radiobox-blank'
+        : undefined;
+
+    const control = controlIcon ? (
+      <Icon
+        name={controlIcon}
+        size={18}
+        color={
+          isDisabled
+            ? paperTheme.colors.onSurfaceDisabled
+            : isSelected || treeStatus === 'indeterminate'
+            ? paperTheme.colors.primary
+            : paperTheme.colors.onSurfaceVariant
+        }
+      />
+    ) : null;
+
+    const checkmark =
+      indicator === 'check' && isSelected ? (
         <Icon
-          name="checkbox-blank-outline"
-          size={18}
-          color={paperTheme.colors.onSurfaceVariant}
+          name="check"
+          size={24}
+          color={
+            isDisabled
+              ? paperTheme.colors.onSurfaceDisabled
+              : paperTheme.colors.primary
+          }
         />
-      )
-    ) : undefined;
+      ) : null;
+
+    const icon = optionIcon ? (
+      <Icon
+        name={optionIcon as IconName}
+        size={24}
+        color={
+          isDisabled
+            ? paperTheme.colors.onSurfaceDisabled
+            : paperTheme.colors.onSurfaceVariant
+        }
+      />
+    ) : null;
+
+    const expander = row?.hasChildren ? (
+      <Icon
+        name={isRowExpanded ? 'chevron-down' : 'chevron-right'}
+        size={24}
+        color={paperTheme.colors.onSurfaceVariant}
+        onPress={() => toggleExpanded(option)}
+        accessibilityRole="button"
+        accessibilityLabel={isRowExpanded ? 'Collapse' : 'Expand'}
+        testID={testID ? `${testID}-expand-${valueFn(option)}` : undefined}
+      />
+    ) : row ? (
+      <View style={styles.expanderSpacer} />
+    ) : null;
 
     const labelStyle: TextStyle = {
-      color: isSelected
+      color: isDisabled
+        ? paperTheme.colors.onSurfaceDisabled
+        : isSelected
         ? paperTheme.colors.primary
         : paperTheme.colors.onSurface,
     };
 
-    return (
+    const item = (
       <ListItem
-        onPress={() =>
-          isSelected ? deselect && deselect(option) : select && select(option)
+        variant={description ? 'two-line' : 'one-line'}
+        onPress={onPress}
+        disabled={isDisabled}
+        leadingContent={
+          row ? (
+            <View style={[styles.leadingIcons, { marginLeft: row.depth * 24 }]}>
+              {expander}
+              {control}
+              {icon}
+            </View>
+          ) : control && icon ? (
+            <View style={styles.leadingIcons}>
+              {control}
+              {icon}
+            </View>
+          ) : (
+            control ?? icon
+          )
         }
-        leadingContent={icon}
-        accessibilityRole="checkbox"
-        accessibilityState={{ checked: isSelected }}
+        trailingContent={checkmark}
+        {...getOptionProps(option)}
+        accessibilityState={{
+          checked: treeStatus === 'indeterminate' ? 'mixed' : isSelected,
+          selected: isSelected,
+          disabled: isDisabled,
+          expanded: isRowExpanded,
+        }}
       >
         <Text variant="bodyMedium" style={labelStyle}>
           {labelFn(option)}
         </Text>
+
+        {description ? (
+          <Text
+            variant="bodySmall"
+            style={
+              isDisabled
+                ? styles.descriptionTextDisabled
+                : styles.descriptionText
+            }
+          >
+            {description}
+          </Text>
+        ) : null}
       </ListItem>
     );
+
+    // Show the option highlighted with the keyboard
+    return highlighted !== undefined && optionCompare(option, highlighted) ? (
+      <View style={styles.highlighted}>{item}</View>
+    ) : (
+      item
+    );
   };
 
+  // Renders SectionList headers for each group, with an optional toggle
+  const renderSectionHeader = ({
+    section,
+  }: {
+    section: SectionListData<T, OptionSection<T>>;
+  }) => {
+    // Disabled options are left out of the group toggle
+    const enabledOptions = section.data.filter(isOptionSelectable);
+    const selectedCount = enabledOptions.filter(isOptionSelected).length;
+    const allSelected =
+      enabledOptions.length > 0 && selectedCount === enabledOptions.length;
+
+    const toggle = groupSelectAll ? (
+      <Checkbox.Android
+        status={
+          allSelected
+            ? 'checked'
+            : selectedCount > 0
+            ? 'indeterminate'
+            : 'unchecked'
+        }
+        onPress={() =>
+          allSelected
+            ? deselectMany && deselectMany(enabledOptions)
+            : selectMany && selectMany(enabledOptions)
+        }
+        disabled={enabledOptions.length === 0}
+        accessibilityLabel={section.title}
+        testID={testID ? `${testID}-group-${section.title}` : undefined}
+      />
+    ) : null;
+
+    return (
+      <View style={styles.sectionHeader} accessibilityRole="header">
+        <Text variant="titleSmall" style={styles.sectionHeaderText}>
+          {section.title}
+        </Text>
+
+        {toggle}
+      </View>
+    );
+  };
+
+  const noneSelected =
+    selected === undefined ||
+    (Array.isArray(selected) && selected.length === 0);
+
   const noneItem = (
-    <ListItem onPress={clearSelected} accessibilityRole="button">
+    <ListItem
+      onPress={clearSelected}
+      accessibilityRole={multi ? 'checkbox' : 'radio'}
+      accessibilityLabel={noneOption || undefined}
+      accessibilityState={{ checked: noneSelected }}
+      testID={testID ? `${testID}-none` : undefined}
+    >
       <Text variant="bodyMedium" style={styles.noneOptionText}>
         {noneOption}
       </Text>
     </ListItem>
   );
 
+  // Disabled options are left out of select all
+  const enabledOptions = options?.filter(isOptionSelectable);
+  const enabledSelectedCount =
+    enabledOptions?.filter(isOptionSelected).length ?? 0;
+  const allSelected =
+    enabledOptions !== undefined &&
+    enabledOptions.length > 0 &&
+    enabledSelectedCount === enabledOptions.length;
+
+  // Options in a tree are selected along with their descendants
+  const selectAllStatus =
+    getTreeStatus && options?.length
+      ? getTreeStatus(...options)
+      : allSelected
+      ? 'checked'
+      : enabledSelectedCount > 0
+      ? 'indeterminate'
+      : 'unchecked';
+
+  const toggleAll = () =>
+    toggleTreeOptions
+      ? options && toggleTreeOptions(...options)
+      : allSelected
+      ? deselectMany && deselectMany(enabledOptions)
+      : selectMany && enabledOptions && selectMany(enabledOptions);
+
+  const selectAllItem = (
+    <ListItem
+      onPress={toggleAll}
+      disabled={!enabledOptions?.length}
+      leadingContent={
+        <Checkbox.Android
+          status={selectAllStatus}
+          onPress={toggleAll}
+          disabled={!enabledOptions?.length}
+        />
+      }
+      accessibilityRole="checkbox"
+      accessibilityLabel={selectAllText}
+      accessibilityState={{
+        checked:
+          selectAllStatus === 'checked'
+            ? true
+            : selectAllStatus === 'indeterminate'
+            ? 'mixed'
+            : false,
+        disabled: !enabledOptions?.length,
+      }}
+      testID={testID ? `${testID}-select-all` : undefined}
+    >
+      <Text variant="bodyLarge">{selectAllText}</Text>
+    </ListItem>
+  );
+
+  const createItem = (
+    <ListItem
+      onPress={creating ? undefined : () => onCreate && onCreate()}
+      leadingContent={
+        creating ? (
+          <ActivityIndicator size="small" />
+        ) : (
+          <Icon
+            name="plus"
+            size={24}
+            color={paperTheme.colors.onSurfaceVariant}
+          />
+        )
+      }
+      accessibilityRole="button"
+      accessibilityLabel={createLabel}
+      accessibilityState={{ busy: creating }}
+      testID={testID ? `${testID}-create` : undefined}
+    >
+      <Text variant="bodyLarge">{createLabel}</Text>
+    </ListItem>
+  );
+
+  const loadingItem = (
+    <ListItem
+      accessibilityState={{ busy: true }}
+      testID={testID ? `${testID}-loading` : undefined}
+    >
+      <ActivityIndicator size="small" />
+    </ListItem>
+  );
+
+  const errorItem = (
+    <ListItem
+      trailingContent={
+        <Button onPress={() => onRetry && onRetry()}>Retry</Button>
+      }
+      testID={testID ? `${testID}-error` : undefined}
+    >
+      <Text
+        variant="bodyMedium"
+        accessibilityRole="alert"
+        style={styles.errorText}
+      >
+        {errorText}
+      </Text>
+    </ListItem>
+  );
+
+  // Rendered in place of the options while loading, on error or when empty
+  const renderListEmpty = () => {
+    if (loading) {
+      return loadingItem;
+    }
+
+    if (errorText !== undefined) {
+      return errorItem;
+    }
+
+    // The option to create takes the place of the empty row
+    if (createLabel !== undefined) {
+      return null;
+    }
+
+    if (renderEmpty) {
+      return <>{renderEmpty()}</>;
+    }
+
+    return (
+      <ListItem testID={testID ? `${testID}-empty` : undefined}>
+        <Text variant="bodyMedium" style={styles.emptyText}>
+          {emptyText}
+        </Text>
+      </ListItem>
+    );
+  };
+
+  // Rendered below the options while loading more, or on error loading more
+  const renderListFooter = () => {
+    if (!options?.length) {
+      return null;
+    }
+
+    if (loadingMore) {
+      return loadingItem;
+    }
+
+    if (errorText !== undefined) {
+      return errorItem;
+    }
+
+    return null;
+  };
+
   const modalHeader = (
     <>
-      <Text variant="headlineSmall" style={styles.modalHeader}>
-        {label}
-      </Text>
+      <View style={styles.modalHeader}>
+        <Text variant="headlineSmall" style={styles.modalHeaderText}>
+          {label}
+        </Text>
+
+        {maxSelected !== undefined ? (
+          <Text
+            variant="labelLarge"
+            style={styles.counterText}
+            testID={testID ? `${testID}-counter` : undefined}
+          >
+            {`${selectionCount} / ${maxSelected}`}
+          </Text>
+        ) : null}
+      </View>
 
       <Divider />
     </>
   );
 
+  const searchbar = (
+    <Searchbar
+      mode="bar"
+      placeholder={searchPlaceholder}
+      value={query}
+      onChangeText={(text) => onQueryChange && onQueryChange(text)}
+      elevation={0}
+      style={styles.searchbar}
+      testID={testID ? `${testID}-search` : undefined}
+    />
+  );
+
   const modalFooter = (
     <>
       <Divider />
 
       <View style={styles.modalFooter}>
-        <Button onPress={() => onDismiss && onDismiss()}>Ok</Button>
-        <Button
-          onPress={() => clearSelected && clearSelected()}
-          textColor={paperTheme.colors.onSurfaceVariant}
-        >
-          Clear
-        </Button>
+        <Button onPress={() => onConfirm && onConfirm()}>Ok</Button>
+        {onCancel ? <Button onPress={() => onCancel()}>Cancel</Button> : null}
+        {nullable ? (
+          <Button
+            onPress={() => clearSelected && clearSelected()}
+            textColor={paperTheme.colors.onSurfaceVariant}
+          >
+            Clear
+          </Button>
+        ) : null}
       </View>
     </>
   );
@@ -248,22 +899,39 @@ export const ModalMenu = <T extends NonNullable<any>>(
   }, []);
 
   // Don't use memo with dimensions
-  const modalListStyle = {
-    flexShrink: 1,
-    minHeight: mode === 'modal' ? dimensions.height / 4 : 'none',
-    maxHeight: mode === 'modal' ? dimensions.height / 2 : 'none',
-  } as ViewStyle;
+  const modalListStyle = (
+    mode === 'fullscreen'
+      ? { flex: 1 }
+      : {
+          flexShrink: 1,
+          minHeight: mode === 'modal' ? dimensions.height / 4 : undefined,
+          maxHeight: mode === 'modal' ? dimensions.height / 2 : undefined,
+        }
+  ) as ViewStyle;
+
+  const containerHeight = portalHeight ?? dimensions.height;
 
   const dropdownStyle = React.useMemo(() => {
+    if (deferredMenuLayout === undefined) {
+      return { position: 'absolute', width: 'auto' } as ViewStyle;
+    }
+
+    const { placement, top, bottom, maxHeight } = getDropdownPlacement(
+      deferredMenuLayout,
+      containerHeight,
+      maxDropdownHeight
+    );
+
     return {
       position: 'absolute',
-      top:
-        deferredMenuLayout &&
-        deferredMenuLayout.top + deferredMenuLayout.height,
-      left: deferredMenuLayout?.left,
-      width: deferredMenuLayout?.width ?? 'auto',
+      top,
+      bottom,
+      left: deferredMenuLayout.left,
+      width: deferredMenuLayout.width,
+      maxHeight,
+      ...(placement === 'above' ? styles.dropdownAbove : undefined),
     } as ViewStyle;
-  }, [deferredMenuLayout]);
+  }, [deferredMenuLayout, containerHeight, maxDropdownHeight, styles]);
 
   return (
     <>
@@ -280,33 +948,92 @@ export const ModalMenu = <T extends NonNullable<any>>(
             contentContainerStyle={
               mode === 'modal'
                 ? [styles.modalStyle, modalStyle]
+                : mode === 'fullscreen'
+                ? styles.fullScreenStyle
                 : [styles.dropdownStyle, dropdownStyle]
             }
             testID={testID}
           >
-            {mode === 'modal' && label ? modalHeader : null}
+            {renderHeader
+              ? renderHeader()
+              : mode !== 'dropdown' && label
+              ? modalHeader
+              : null}
+
+            {searchable ? searchbar : null}
 
             <View style={modalListStyle}>
-              {mode === 'dropdown' && noneOption ? noneItem : null}
-
-              <FlatList
-                data={options}
-                scrollEnabled={mode === 'modal'}
-                keyExtractor={valueFn}
-                renderItem={renderModalItem}
-                ItemSeparatorComponent={Divider}
-                accessibilityRole="list"
-              />
+              {nullable && noneOption ? noneItem : null}
+
+              {createLabel !== undefined ? createItem : null}
+
+              {selectAll && options?.length ? selectAllItem : null}
+
+              {treeRows ? (
+                <FlatList
+                  data={treeRows}
+                  keyExtractor={(row) => valueFn(row.option)}
+                  renderItem={renderTreeItem}
+                  ItemSeparatorComponent={Divider}
+                  ListEmptyComponent={renderListEmpty}
+                  ListFooterComponent={renderListFooter}
+                  onEndReached={() => onEndReached && onEndReached()}
+                  onEndReachedThreshold={0.5}
+                  {...listProps}
+                />
+              ) : sections ? (
+                <SectionList
+                  ref={sectionListRef}
+                  sections={sections}
+                  keyExtractor={valueFn}
+                  renderItem={renderModalItem}
+                  renderSectionHeader={renderSectionHeader}
+                  stickySectionHeadersEnabled={true}
+                  extraData={highlighted}
+                  onScrollToIndexFailed={({ averageItemLength, index }) =>
+                    sectionListRef.current?.getScrollResponder()?.scrollTo({
+                      y: averageItemLength * index,
+                    })
+                  }
+                  ItemSeparatorComponent={Divider}
+                  ListEmptyComponent={renderListEmpty}
+                  ListFooterComponent={renderListFooter}
+                  onEndReached={() => onEndReached && onEndReached()}
+                  onEndReachedThreshold={0.5}
+                  {...listProps}
+                />
+              ) : (
+                <FlatList
+                  ref={listRef}
+                  data={options}
+                  keyExtractor={valueFn}
+                  renderItem={renderModalItem}
+                  extraData={highlighted}
+                  onScrollToIndexFailed={({ averageItemLength, index }) =>
+                    listRef.current?.scrollToOffset({
+                      offset: averageItemLength * index,
+                    })
+                  }
+                  ItemSeparatorComponent={Divider}
+                  ListEmptyComponent={renderListEmpty}
+                  ListFooterComponent={renderListFooter}
+                  onEndReached={() => onEndReached && onEndReached()}
+                  onEndReachedThreshold={0.5}
+                  {...listProps}
+                />
+              )}
             </View>
 
-            {mode === 'modal' && label ? modalFooter : null}
+            {renderFooter
+              ? renderFooter()
+              : mode !== 'dropdown' && (label || onCancel)
+              ? modalFooter
+              : null}
           </Modal>
         </View>
       </Portal>
 
-      <View ref={anchorRef} onLayout={layoutMenu}>
-        {React.Children.only(children)}
-      </View>
+      <View ref={anchorRef}>{React.Children.only(children)}</View>
     </>
   );
 };
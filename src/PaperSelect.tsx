@@ -1,11 +1,49 @@
 import * as React from 'react';
 
-import { View, Keyboard, Platform, type ViewProps } from 'react-native';
+import {
+  View,
+  Platform,
+  AccessibilityInfo,
+  findNodeHandle,
+  useWindowDimensions,
+  type ViewProps,
+} from 'react-native';
 
 import { TextInputAnchor } from './TextInputAnchor';
-import { ModalMenu } from './ModalMenu';
-
-import { optionCompare, defaultValueFn, defaultLabelFn } from './util';
+import { ModalMenu, getOptionId } from './ModalMenu';
+import { InlineOptions } from './InlineOptions';
+import {
+  useOptionsLoader,
+  type LoadOptionsFn,
+  type LoadMorePagesFn,
+} from './useOptionsLoader';
+import {
+  usePaperSelect,
+  assertSingle,
+  assertMulti,
+  selectionPropKeys,
+} from './usePaperSelect';
+import { useMenuKeyboard } from './useMenuKeyboard';
+import type { SelectCloseReason } from './selectReducer';
+
+import {
+  optionCompare,
+  defaultValueFn,
+  defaultLabelFn,
+  labelMatchesQuery,
+  sortOptions,
+  defaultChildrenFn,
+  flattenTree,
+  filterTree,
+  getLeaves,
+  applySelectionStrategy,
+  getAutoMenuMode,
+  groupOptions,
+  omit,
+  type OptionsSort,
+  type SelectionStrategy,
+  type MenuBreakpoints,
+} from './util';
 
 /** State object for `renderFn` callback */
 type PaperSelectCommonState<T> = {
@@ -46,19 +84,139 @@ export type PaperSelectSingleState<T> = {
 export type PaperSelectMultiState<T> = {
   /** The current selection. */
   readonly selected?: T[];
+
+  /**
+   * Selects several options at once, with a single change to the selection
+   *
+   * @param selected the options to select
+   */
+  readonly selectMany: (selected: T[]) => void;
+
+  /**
+   * Deselects several options at once, with a single change to the selection
+   *
+   * @param deselected the options to deselect
+   */
+  readonly deselectMany: (deselected: T[]) => void;
 } & PaperSelectCommonState<T>;
 
+/** State object for `renderOption` callback */
+export type PaperSelectOptionState<T> = {
+  /** The option to render */
+  readonly option: T;
+
+  /** Indicates wether the option is selected */
+  readonly selected: boolean;
+
+  /** Indicates wether the option is disabled */
+  readonly disabled: boolean;
+
+  /** Toggles selection of the option */
+  readonly onPress: () => void;
+
+  /** Index of the option in the list */
+  readonly index: number;
+};
+
+/** State object for menu slot callbacks */
+export type PaperSelectMenuState = {
+  /** The current search query, or an empty string */
+  readonly query: string;
+
+  /** Closes the menu */
+  readonly closeMenu: () => void;
+
+  /** Commits the selection when `commitMode` is `'confirm'`, and closes the menu */
+  readonly confirm: () => void;
+
+  /** Clears the current selection (sets to `undefined`) */
+  readonly clearSelected: () => void;
+};
+
 /** Shared props for single/multi select */
 type PaperSelectCommonProps<T> = {
   /** Array of options */
   readonly options?: T[];
 
-  // TODO: options sort
+  /**
+   * Specifies how options are sorted in the menu and in a multi-select value
+   *
+   * - `'label'`: by label, using `Intl.Collator` for `sortLocale`
+   * - `'value'`: by value, using `Intl.Collator` for `sortLocale`
+   * - `'selected-first'`: options selected when the menu opened first, then by label
+   * - or a comparator function, as accepted by `Array.prototype.sort`
+   *
+   * Options are listed in the order given if not specified.
+   */
+  readonly sort?: OptionsSort<T>;
+
+  /**
+   * Locale(s) used to compare labels and values when sorting, as accepted by `Intl.Collator`
+   *
+   * @defaultValue the runtime's default locale
+   */
+  readonly sortLocale?: string | string[];
+
+  /**
+   * Callback to load options asynchronously, used instead of `options`
+   *
+   * Called when the menu opens, and again for each search query if `searchable` is set.
+   * Results are cached per query and `dependsOn` value.
+   *
+   * @param query the current search query, or an empty string
+   * @param opts.signal aborted when the request is superseded or the menu closes
+   * @param opts.parentValue the current `dependsOn` value
+   * @returns promise resolving to the options for the query
+   */
+  readonly loadOptions?: LoadOptionsFn<T>;
+
+  /**
+   * Callback to load pages of options asynchronously, used instead of `options` or `loadOptions`
+   *
+   * The first page is loaded when the menu opens, and following pages as the end of the list is reached,
+   * until a page is returned without a `nextCursor`.
+   *
+   * @param cursor the `nextCursor` of the previous page, or `undefined` for the first page
+   * @param opts.query the current search query, or an empty string
+   * @param opts.signal aborted when the request is superseded or the menu closes
+   * @param opts.parentValue the current `dependsOn` value
+   * @returns promise resolving to the page of options
+   */
+  readonly loadMorePages?: LoadMorePagesFn<T>;
+
+  /**
+   * Delay in milliseconds to wait for further typing before loading options for a search query
+   * with `loadOptions` or `loadMorePages`
+   *
+   * @defaultValue 300
+   */
+  readonly loadOptionsDelay?: number;
+
+  /**
+   * Text to display in the menu when there are no options
+   *
+   * @defaultValue 'No options'
+   */
+  readonly noOptionsText?: string;
+
+  /**
+   * Text to display in the menu when `loadOptions` or `loadMorePages` fails
+   *
+   * @defaultValue 'Failed to load options'
+   */
+  readonly loadErrorText?: string;
 
   /** The label for this input. Not used if `renderFn` is supplied. */
   readonly label?: string;
 
-  // TODO: nullable
+  /**
+   * Permits the selection to be cleared (set to `undefined`)
+   *
+   * When `false`, the "none" option and "Clear" button are not rendered, and `clearSelected` is a no-op.
+   *
+   * @defaultValue true
+   */
+  readonly nullable?: boolean;
 
   /**
    * Use error styles on the component
@@ -69,7 +227,15 @@ type PaperSelectCommonProps<T> = {
    */
   error?: boolean;
 
-  // TODO: editable
+  /**
+   * Permits opening the menu to change the selection
+   *
+   * When `false`, the value is shown with normal styles and remains focusable and readable by screen readers,
+   * but the menu can't be opened. Not used if `renderFn` is supplied.
+   *
+   * @defaultValue true
+   */
+  readonly editable?: boolean;
 
   /**
    * Disables interactivity and uses disabled styles. Not used if `renderFn` is supplied.
@@ -78,16 +244,75 @@ type PaperSelectCommonProps<T> = {
    */
   readonly disabled?: boolean;
 
+  /**
+   * Indicator rendered for the selection state of each option in the menu
+   *
+   * - `'radio'`: leading radio buttons, or checkboxes on a multi-select
+   * - `'check'`: trailing check marks on selected options
+   * - `'none'`: selected options are only highlighted by colour
+   *
+   * @defaultValue 'none', or checkboxes with `multi: 'checkboxes'`
+   */
+  readonly indicator?: 'radio' | 'check' | 'none';
+
+  /**
+   * Hint read by screen readers to describe the result of interacting with the select
+   *
+   * @defaultValue 'Read only' when `editable` is false
+   */
+  readonly accessibilityHint?: string;
+
+  /**
+   * Value of a parent select that this select's options depend on, ie. the country for a state select
+   *
+   * The select is disabled until the parent has a value, and its selection is reset when the parent
+   * value changes. The parent value is passed to `loadOptions` and `loadMorePages`.
+   */
+  readonly dependsOn?: unknown;
+
   /**
    * Specifies how the select menu is rendered
    *
+   * `'inline-list'` and `'chips'` render all options directly in the layout, as a list of rows or as
+   * filter chips, in place of the input and menu. `'fullscreen'` renders the menu as a dialog that
+   * fills the window.
+   *
+   * `'auto'` picks `'fullscreen'`, `'modal'` or `'dropdown'` from the window width and the number of
+   * options, following `menuBreakpoints`. An open menu keeps its mode as options load, and is only
+   * picked again as the window resizes or rotates.
+   *
    * @defaultValue 'dropdown' for web, 'modal' for other environements, or if `renderFn` is defined
    */
-  readonly renderMenu?: 'modal' | 'dropdown' | false;
+  readonly renderMenu?:
+    | 'modal'
+    | 'dropdown'
+    | 'fullscreen'
+    | 'auto'
+    | 'inline-list'
+    | 'chips'
+    | false;
+
+  /**
+   * Window widths and option count used to pick a menu when `renderMenu` is `'auto'`
+   *
+   * @defaultValue `{ fullScreen: 600, dropdown: 840, maxDropdownOptions: 50 }`
+   */
+  readonly menuBreakpoints?: MenuBreakpoints;
+
+  /**
+   * Maximum height of the menu in `dropdown` mode, which scrolls when its options don't fit
+   *
+   * The dropdown is placed above the input when there is more room there than below it.
+   *
+   * @defaultValue 300
+   */
+  readonly maxDropdownHeight?: number;
 
   /**
    * Label to use for the optional "none" option (sets value to `undefined`)
    *
+   * Not rendered if `false`, or if `nullable` is `false`.
+   *
    * @defaultValue '(None)'
    */
   readonly noneOption?: string | false;
@@ -118,11 +343,230 @@ type PaperSelectCommonProps<T> = {
    */
   readonly labelFn?: (option: Readonly<T>) => string;
 
-  // TODO: onSelectionCommit
+  /**
+   * Callback to determine if an option is disabled
+   *
+   * Disabled options are listed in the menu, but cannot be selected or deselected.
+   *
+   * @param option the option to test
+   * @returns true if the option is disabled
+   */
+  readonly disabledFn?: (option: Readonly<T>) => boolean;
+
+  /**
+   * Callback to extract a secondary line of text from an option, shown under the label in the menu
+   *
+   * @param option the option to derive a description from
+   * @returns description for the option, or `undefined` for none
+   */
+  readonly descriptionFn?: (option: Readonly<T>) => string | undefined;
+
+  /**
+   * Callback to extract an icon from an option, shown before the label in the menu
+   *
+   * @param option the option to derive an icon from
+   * @returns a `MaterialCommunityIcons` icon name, or `undefined` for none
+   */
+  readonly iconFn?: (option: Readonly<T>) => string | undefined;
+
+  /**
+   * Callback to group options under section headers in the menu
+   *
+   * Groups are listed in the order they first appear in the options.
+   *
+   * @param option the option to derive a group from
+   * @returns title of the group for the option
+   */
+  readonly groupBy?: (option: Readonly<T>) => string;
+
+  /**
+   * Renders a toggle in each group header to select or deselect all options in the group
+   *
+   * Only used with `groupBy` on a multi-select.
+   *
+   * @defaultValue false
+   */
+  readonly groupSelectAll?: boolean;
+
+  /**
+   * Renders options as an expandable tree, using the nested `children` array of each option
+   *
+   * Searching keeps matching options along with their ancestors and descendants. Keyboard navigation
+   * on web moves between top-level options only.
+   *
+   * @defaultValue false
+   */
+  readonly tree?: boolean;
+
+  /**
+   * Callback to get the children of an option, renders options as a tree when defined
+   *
+   * @param option the option to get children for
+   * @returns the child options, or `undefined` for a leaf
+   */
+  readonly childrenFn?: (option: Readonly<T>) => ReadonlyArray<T> | undefined;
+
+  /**
+   * Determines the selection returned from a multi-select tree
+   *
+   * - `'leaves'`: only selected leaf options
+   * - `'parents'`: the topmost option of each fully selected branch, in place of its descendants
+   * - `'all'`: every selected option, including fully selected parents
+   *
+   * @defaultValue 'all'
+   */
+  readonly selectionStrategy?: SelectionStrategy;
+
+  /**
+   * Renders a row above the options to select or deselect all of them
+   *
+   * Only used on a multi-select. Disabled options are left out, and only the filtered options are affected while searching.
+   *
+   * @defaultValue false
+   */
+  readonly selectAll?: boolean;
+
+  /**
+   * Text to render in the select all row
+   *
+   * @defaultValue 'Select all'
+   */
+  readonly selectAllText?: string;
+
+  /**
+   * Renders a search field above the options in the menu to filter them
+   *
+   * @defaultValue false
+   */
+  readonly searchable?: boolean;
+
+  /**
+   * Placeholder text for the search field when `searchable` is set
+   *
+   * @defaultValue 'Search'
+   */
+  readonly searchPlaceholder?: string;
+
+  /**
+   * Callback to test an option against the search query when `searchable` is set
+   *
+   * If not specified, a default implementation is used:
+   * - Matches options whose label (from `labelFn`) contains the query, ignoring case
+   *
+   * @param option the option to test
+   * @param query the current search query
+   * @returns true if the option should be listed
+   */
+  readonly filterFn?: (option: Readonly<T>, query: string) => boolean;
+
+  /**
+   * Permits creating an option from the search query when no option matches it
+   *
+   * Renders the search field, and an option to create from the query using `onCreateOption`.
+   *
+   * @defaultValue false
+   */
+  readonly creatable?: boolean;
+
+  /**
+   * Callback to create an option from the search query when `creatable` is set
+   *
+   * The created option is added to the options and selected. Nothing is selected if the promise rejects.
+   *
+   * @param query the current search query
+   * @returns the created option, or a promise resolving to it
+   */
+  readonly onCreateOption?: (query: string) => T | Promise<T>;
+
+  /**
+   * Callback to get the label of the option that creates an option from the query
+   *
+   * @param query the current search query
+   * @returns the label to render
+   * @defaultValue (query) => `Add "${query}"`
+   */
+  readonly createOptionLabel?: (query: string) => string;
+
+  /**
+   * Render a custom component for each option in the menu instead of the default list item
+   *
+   * @param state the option and its current state
+   * @returns the rendered option element
+   */
+  readonly renderOption?: (
+    state: PaperSelectOptionState<T>
+  ) => React.ReactElement;
+
+  /**
+   * Render a custom header in the menu instead of the default label
+   *
+   * @param state current menu state and callback functions
+   * @returns the rendered header
+   */
+  readonly renderMenuHeader?: (state: PaperSelectMenuState) => React.ReactNode;
+
+  /**
+   * Render a custom footer in the menu instead of the default "Ok" and "Clear" buttons
+   *
+   * @param state current menu state and callback functions
+   * @returns the rendered footer
+   */
+  readonly renderMenuFooter?: (state: PaperSelectMenuState) => React.ReactNode;
+
+  /**
+   * Render a custom component in the menu when there are no options, instead of `noOptionsText`
+   *
+   * @param state current menu state and callback functions
+   * @returns the rendered empty state
+   */
+  readonly renderEmpty?: (state: PaperSelectMenuState) => React.ReactNode;
+
+  /**
+   * When to apply selection changes made in the menu
+   *
+   * - `'immediate'`: each change calls `onSelection` as it's made
+   * - `'confirm'`: changes are held as a draft until "Ok" is pressed, and discarded by "Cancel" or
+   *   dismissing the menu. Only used when `renderMenu` is `'modal'` or `'fullscreen'`.
+   *
+   * @defaultValue 'immediate'
+   */
+  readonly commitMode?: 'immediate' | 'confirm';
+
+  /**
+   * Controls wether the menu is open, instead of local state
+   */
+  readonly open?: boolean;
+
+  /**
+   * Wether the menu is initially open when not controlled by `open`
+   *
+   * @defaultValue false
+   */
+  readonly defaultOpen?: boolean;
+
+  /**
+   * Callback that is called when the menu requests to open or close
+   *
+   * @param open wether the menu should be open
+   */
+  readonly onOpenChange?: (open: boolean) => void;
+
+  /** Callback that is called when the menu opens */
+  readonly onOpen?: () => void;
+
+  /**
+   * Callback that is called when the menu closes
+   *
+   * @param reason what caused the menu to close
+   */
+  readonly onClose?: (reason: SelectCloseReason) => void;
+
+  /** Callback that is called when the menu is dismissed without confirming, ie. with the backdrop, "Cancel" or Escape */
+  readonly onDismiss?: () => void;
 } & Omit<ViewProps, 'children'>;
 
 /** Props for single-select */
-type PaperSingleSelectProps<T> = {
+export type PaperSingleSelectProps<T> = {
   /**
    * Specifies if this select permits multiple selection
    *
@@ -145,6 +589,21 @@ type PaperSingleSelectProps<T> = {
    */
   readonly onSelection?: (option: Readonly<T> | undefined) => void;
 
+  /**
+   * Callback that is called when the component's selection is committed.
+   *
+   * Called right after `onSelection`, with the same value. Neither is called for changes held as a
+   * draft with `commitMode` `'confirm'`, until they are committed with "Ok".
+   *
+   * @param option the selected option
+   */
+  readonly onSelectionCommit?: (option: Readonly<T> | undefined) => void;
+
+  /** Selection limits only apply to multi-select */
+  readonly minSelected?: never;
+  readonly maxSelected?: never;
+  readonly onLimitReached?: never;
+
   /**
    * Render a custom component instead of the default `TextInput` implementation
    *
@@ -155,7 +614,7 @@ type PaperSingleSelectProps<T> = {
 } & PaperSelectCommonProps<T>;
 
 /** Props for multi-select */
-type PaperMultiSelectProps<T> = {
+export type PaperMultiSelectProps<T> = {
   /**
    * Specifies if this select permits multiple selection
    *
@@ -178,6 +637,37 @@ type PaperMultiSelectProps<T> = {
    */
   readonly onSelection?: (options: Readonly<T>[] | undefined) => void;
 
+  /**
+   * Callback that is called when the component's selection is committed.
+   *
+   * Called right after `onSelection`, with the same value. Neither is called for changes held as a
+   * draft with `commitMode` `'confirm'`, until they are committed with "Ok".
+   *
+   * @param options the selected options
+   */
+  readonly onSelectionCommit?: (options: Readonly<T>[] | undefined) => void;
+
+  /**
+   * Minimum number of options to keep selected
+   *
+   * Deselecting below the minimum, or clearing the selection, is blocked once reached.
+   */
+  readonly minSelected?: number;
+
+  /**
+   * Maximum number of options that may be selected
+   *
+   * Remaining options are disabled once reached, and a counter is shown in the modal header.
+   */
+  readonly maxSelected?: number;
+
+  /**
+   * Callback that is called when a change is blocked by `minSelected` or `maxSelected`
+   *
+   * @param limit the limit that blocked the change
+   */
+  readonly onLimitReached?: (limit: 'min' | 'max') => void;
+
   /**
    * Render a custom component instead of the default `TextInput` implementation
    *
@@ -192,99 +682,362 @@ export type PaperSelectProps<T> =
   | PaperMultiSelectProps<T>
   | PaperSingleSelectProps<T>;
 
-/** Assertion function for narrowing single-select prop types */
-function assertSingle<T>(
-  props: any
-): asserts props is PaperSingleSelectProps<T> {
-  const valid =
-    (!Object.hasOwn(props, 'multi') || props.multi === false) &&
-    (props.value === undefined || !Array.isArray(props.value)) &&
-    (props.defaultValue === undefined || !Array.isArray(props.defaultValue));
-
-  if (!valid) {
-    throw new TypeError(
-      '`value` and `defaultValue` must not be arrays if defined without `multi`.'
-    );
-  }
-}
-
-/** Assertion function for narrowing multi-select prop types */
-function assertMulti<T>(
-  props: PaperSelectProps<T>
-): asserts props is PaperMultiSelectProps<T> {
-  const valid =
-    Object.hasOwn(props, 'multi') &&
-    (props.multi === true || props.multi === 'checkboxes') &&
-    (props.value === undefined || Array.isArray(props.value)) &&
-    (props.defaultValue === undefined || Array.isArray(props.defaultValue));
-
-  if (!valid) {
-    throw new TypeError(
-      '`value` and `defaultValue` must be arrays if defined with `multi`.'
-    );
-  }
-}
+/** Imperative handle for a `PaperSelect` ref */
+export type PaperSelectHandle<T> = {
+  /** Opens the menu */
+  readonly open: () => void;
 
-/**
- * A component that allows users to make a selection from a list of options
- *
- * ## Usage
- * ```js
- * import * as React from 'react';
- * import { PaperSelect } from '@rcarls/react-native-paper-select';
- *
- * const options = ['one', 'two', 'three'];
- *
- * const MyComponent = () => {
- *   const [value, setValue] = React.useState('');
- *
- *   return (
- *     <PaperSelect
- *       label="Example"
- *       options={options}
- *       value={value}
- *       onSelection={(option) => setValue(option)}
- *     />
- *   );
- * };
- *
- * export default MyComponent;
- * ```
- */
-export const PaperSelect = <T extends NonNullable<any>>(
-  props: PaperSelectProps<T>
+  /** Closes the menu */
+  readonly close: () => void;
+
+  /** Moves focus to the anchor */
+  readonly focus: () => void;
+
+  /** Removes focus from the anchor */
+  readonly blur: () => void;
+
+  /** Clears the current selection (sets to `undefined`) */
+  readonly clear: () => void;
+
+  /**
+   * Selects an option
+   *
+   * @param option the option to select
+   */
+  readonly select: (option: T) => void;
+
+  /** Indicates wether the menu is open or not */
+  readonly isOpen: () => boolean;
+};
+
+const PaperSelectWithRef = <T extends NonNullable<any>>(
+  props: PaperSelectProps<T>,
+  ref: React.ForwardedRef<PaperSelectHandle<T>>
 ) => {
   const {
     multi = false,
-    value: otherValue,
-    defaultValue,
-
-    options,
+    commitMode = 'immediate',
+
+    options: staticOptions,
+    sort,
+    sortLocale,
+    loadOptions,
+    loadMorePages,
+    loadOptionsDelay = 300,
+    noOptionsText = 'No options',
+    loadErrorText = 'Failed to load options',
     label,
     error = false,
+    editable = true,
     disabled = false,
+    dependsOn,
+    indicator,
+    accessibilityHint,
+    maxDropdownHeight,
     noneOption = '(None)',
-    renderMenu = Platform.OS === 'web' &&
+    nullable = true,
+    minSelected,
+    maxSelected,
+    renderMenu: renderMenuProp = Platform.OS === 'web' &&
     'document' in global &&
     props.renderFn === undefined
       ? 'dropdown'
       : 'modal',
+    menuBreakpoints,
     valueFn = defaultValueFn,
     labelFn = defaultLabelFn,
+    disabledFn,
+    descriptionFn,
+    iconFn,
+    groupBy,
+    groupSelectAll = false,
+    selectAll = false,
+    selectAllText = 'Select all',
+    tree = false,
+    childrenFn,
+    selectionStrategy = 'all',
+    searchable = false,
+    searchPlaceholder = 'Search',
+    filterFn,
+    creatable = false,
+    onCreateOption,
+    createOptionLabel = (newQuery: string) => `Add "${newQuery}"`,
+    renderOption,
+    renderMenuHeader,
+    renderMenuFooter,
+    renderEmpty,
     testID,
 
-    ...viewProps
+    ...otherProps
   } = props;
 
-  const [uncontrolledValue, setUncontrolledValue] = React.useState(
-    otherValue ?? defaultValue
+  // Selection props are handled by `usePaperSelect`
+  const viewProps = omit(otherProps, selectionPropKeys);
+
+  const [query, setQuery] = React.useState('');
+
+  // Follows menu visibility, which itself depends on the loaded options
+  const [loaderActive, setLoaderActive] = React.useState(false);
+
+  const loader = useOptionsLoader({
+    loadOptions,
+    loadMorePages,
+    query: searchable || creatable ? query.trim() : '',
+    parentValue: dependsOn,
+    active: loaderActive,
+    delay: loadOptionsDelay,
+  });
+
+  // Follows the selection while the menu is closed, so options don't move around while selecting
+  const [sortSelection, setSortSelection] = React.useState<T | T[]>();
+
+  // Options created with `onCreateOption`
+  const [createdOptions, setCreatedOptions] = React.useState<T[]>([]);
+  const [creating, setCreating] = React.useState(false);
+
+  const isLoaded = loadOptions !== undefined || loadMorePages !== undefined;
+  const baseOptions = isLoaded ? loader.options : staticOptions;
+
+  const unsortedOptions = React.useMemo(() => {
+    if (createdOptions.length === 0) {
+      return baseOptions;
+    }
+
+    return (baseOptions ?? []).concat(
+      createdOptions.filter(
+        (created) => !baseOptions?.some((opt) => optionCompare(opt, created))
+      )
+    );
+  }, [baseOptions, createdOptions]);
+
+  const options = React.useMemo(() => {
+    if (sort === undefined || unsortedOptions === undefined) {
+      return unsortedOptions;
+    }
+
+    return sortOptions(unsortedOptions, sort, {
+      valueFn,
+      labelFn,
+      isSelected: (option) =>
+        Array.isArray(sortSelection)
+          ? sortSelection.some((val) => optionCompare(val, option))
+          : optionCompare(sortSelection, option),
+      locale: sortLocale,
+    });
+  }, [unsortedOptions, sort, sortLocale, valueFn, labelFn, sortSelection]);
+
+  const isTree = tree || childrenFn !== undefined;
+  const treeChildrenFn = childrenFn ?? defaultChildrenFn;
+
+  // Every option in a tree, for selection and search
+  const allOptions = React.useMemo(
+    () =>
+      isTree && options !== undefined
+        ? flattenTree(options, treeChildrenFn)
+        : options,
+    [isTree, options, treeChildrenFn]
+  );
+
+  const dimensions = useWindowDimensions();
+
+  const autoMenuMode = getAutoMenuMode(
+    dimensions.width,
+    allOptions?.length ?? 0,
+    menuBreakpoints
+  );
+
+  // Mode picked as the menu opened, so loading options doesn't swap an open menu
+  const [openMenuMode, setOpenMenuMode] = React.useState<{
+    mode: typeof autoMenuMode;
+    width: number;
+  }>();
+
+  // Picked again while closed, or as the window resizes or rotates
+  const renderMenu =
+    renderMenuProp !== 'auto'
+      ? renderMenuProp
+      : openMenuMode?.width === dimensions.width
+      ? openMenuMode.mode
+      : autoMenuMode;
+
+  const isDialog = renderMenu === 'modal' || renderMenu === 'fullscreen';
+
+  const isInline = renderMenu === 'inline-list' || renderMenu === 'chips';
+
+  // Wait for the parent select to have a value
+  const isDisabled =
+    disabled ||
+    (Object.hasOwn(props, 'dependsOn') &&
+      (dependsOn === undefined ||
+        (Array.isArray(dependsOn) && dependsOn.length === 0)));
+
+  const anchorRef = React.useRef<View>(null);
+
+  // The combobox is the accessibility element on native, rather than the anchor inside it
+  const comboboxRef = React.useRef<View>(null);
+
+  // Move focus, and screen reader focus, back to the anchor
+  const focusAnchor = () => {
+    if (Platform.OS === 'web') {
+      anchorRef.current?.focus();
+
+      return;
+    }
+
+    const node = findNodeHandle(comboboxRef.current);
+
+    node && AccessibilityInfo.setAccessibilityFocus(node);
+  };
+
+  const selectState = usePaperSelect({
+    ...props,
+    onClose: (reason) => {
+      props.onClose && props.onClose(reason);
+
+      // Leave focus alone when closed through `open` or the ref, ie. to open another select
+      if (reason !== 'programmatic') {
+        focusAnchor();
+      }
+    },
+    options: allOptions,
+    disabled: isDisabled || !editable || renderMenu === false || isInline,
+    commitMode: isDialog ? commitMode : 'immediate',
+  });
+
+  const {
+    active: menuVisible,
+    selected: value,
+    openMenu,
+    closeMenu,
+    clearSelected,
+    select,
+    deselect,
+    selectMany,
+    deselectMany,
+    draft,
+    dispatch,
+  } = selectState;
+
+  React.useEffect(() => {
+    if (!menuVisible) {
+      setSortSelection(value);
+    }
+  }, [menuVisible, value]);
+
+  React.useEffect(() => {
+    setOpenMenuMode((current) =>
+      !menuVisible
+        ? undefined
+        : current?.width === dimensions.width
+        ? current
+        : { mode: autoMenuMode, width: dimensions.width }
+    );
+  }, [menuVisible, autoMenuMode, dimensions.width]);
+
+  // Parent value the selection was made for, compared by value rather than identity
+  const selectedDependsOn = React.useRef(dependsOn);
+
+  // Reset the selection when the parent value changes
+  React.useEffect(() => {
+    if (!optionCompare(selectedDependsOn.current, dependsOn)) {
+      selectedDependsOn.current = dependsOn;
+      dispatch({ type: 'reset' });
+    }
+  }, [dependsOn, dispatch]);
+
+  React.useEffect(() => {
+    setLoaderActive(menuVisible);
+
+    // Start each search from scratch when the menu is reopened
+    if (!menuVisible) {
+      setQuery('');
+    }
+  }, [menuVisible]);
+
+  // Options that match the query, and in a tree, their ancestors and descendants
+  const matchingOptions = React.useMemo(() => {
+    // Loaded options are already filtered by query
+    if (
+      !(searchable || creatable) ||
+      query.trim() === '' ||
+      isLoaded ||
+      options === undefined
+    ) {
+      return undefined;
+    }
+
+    const matchesQuery = (option: T) =>
+      filterFn
+        ? filterFn(option, query)
+        : labelMatchesQuery(labelFn(option), query);
+
+    return isTree
+      ? filterTree(options, treeChildrenFn, matchesQuery)
+      : options.filter(matchesQuery);
+  }, [
+    options,
+    isTree,
+    treeChildrenFn,
+    isLoaded,
+    searchable,
+    creatable,
+    query,
+    filterFn,
+    labelFn,
+  ]);
+
+  const isMatching = React.useCallback(
+    (option: T) =>
+      matchingOptions === undefined ||
+      matchingOptions.some((opt) => optionCompare(opt, option)),
+    [matchingOptions]
   );
 
-  // Use value from props instead of local state when input is controlled
-  const isControlled = otherValue !== undefined;
-  const value = isControlled ? otherValue : uncontrolledValue;
+  const filteredOptions = React.useMemo(
+    () => (isTree ? options?.filter(isMatching) : matchingOptions ?? options),
+    [isTree, options, matchingOptions, isMatching]
+  );
 
-  const [menuVisible, setMenuVisible] = React.useState(false);
+  // Children in the menu are filtered along with their parents while searching
+  const menuChildrenFn = React.useMemo(
+    () =>
+      matchingOptions === undefined
+        ? treeChildrenFn
+        : (option: T) => treeChildrenFn(option)?.filter(isMatching),
+    [matchingOptions, treeChildrenFn, isMatching]
+  );
+
+  // Offer to create an option when none matches the query exactly
+  const createQuery = query.trim();
+  const canCreate =
+    creatable &&
+    onCreateOption !== undefined &&
+    createQuery !== '' &&
+    !allOptions?.some(
+      (option) =>
+        labelFn(option)?.toLocaleLowerCase() === createQuery.toLocaleLowerCase()
+    );
+
+  const createOption = () => {
+    if (!canCreate || onCreateOption === undefined || creating) {
+      return;
+    }
+
+    setCreating(true);
+
+    // Catch synchronous errors along with rejections
+    new Promise<T>((resolve) => resolve(onCreateOption(createQuery))).then(
+      (option) => {
+        setCreating(false);
+        setCreatedOptions((current) => current.concat(option));
+        setQuery('');
+        dispatch({ type: 'create', option });
+      },
+      () => {
+        setCreating(false);
+      }
+    );
+  };
 
   const getValue = React.useCallback(() => {
     if (multi) {
@@ -302,104 +1055,207 @@ export const PaperSelect = <T extends NonNullable<any>>(
     }
   }, [multi, value, labelFn]);
 
-  const clearSelected = () => {
-    // Keep track of value in local state when input is not controlled
-    if (!isControlled) {
-      setUncontrolledValue(undefined);
-    }
-
-    if (multi) {
-      assertMulti(props);
-      props.onSelection && props.onSelection(undefined);
-    } else {
-      assertSingle(props);
-      props.onSelection && props.onSelection(undefined);
-    }
-    setMenuVisible(false);
-  };
-
-  const select = (selected: T) => {
-    // Already selected
-    if (optionCompare(value, selected)) {
-      return;
-    }
+  const isConfirming = isDialog && commitMode === 'confirm';
 
-    const valid = options?.some((option) => optionCompare(option, selected));
+  const menuSelected = isConfirming ? draft : value;
 
-    if (valid) {
-      if (multi) {
-        assertMulti(props);
-
-        const newValue = options?.filter(
-          (option) =>
-            (value as T[] | undefined)?.some((val) =>
-              optionCompare(val, option)
-            ) || optionCompare(selected, option)
-        );
+  // Selection in a multi-select tree is tracked by leaves
+  const selectedLeaves = React.useMemo(
+    () =>
+      isTree && Array.isArray(menuSelected)
+        ? menuSelected.flatMap((val) => getLeaves(val, treeChildrenFn))
+        : [],
+    [isTree, menuSelected, treeChildrenFn]
+  );
 
-        // Keep track of value in local state when input is not controlled
-        if (!isControlled) {
-          setUncontrolledValue(newValue);
-        }
+  const isLeafSelected = (leaf: T) =>
+    selectedLeaves.some((sel) => optionCompare(sel, leaf));
 
-        props.onSelection && props.onSelection(newValue as T[] | undefined);
-      } else {
-        assertSingle(props);
+  const isLeafEnabled = (leaf: T) => !(disabledFn && disabledFn(leaf));
 
-        // Keep track of value in local state when input is not controlled
-        if (!isControlled) {
-          setUncontrolledValue(selected);
-        }
+  // Options in the menu, and select all, only cover descendants that match a search
+  const getTreeStatus = (...treeOptions: T[]) => {
+    const allLeaves = treeOptions.flatMap((option) =>
+      getLeaves(option, menuChildrenFn)
+    );
 
-        props.onSelection && props.onSelection(selected);
+    // Count the leaves a toggle changes, unless they are all disabled
+    const enabledLeaves = allLeaves.filter(isLeafEnabled);
+    const leaves = enabledLeaves.length > 0 ? enabledLeaves : allLeaves;
+    const selectedCount = leaves.filter(isLeafSelected).length;
 
-        // Close menu on selection with single select
-        setMenuVisible(false);
-      }
-    }
+    return selectedCount === 0
+      ? 'unchecked'
+      : selectedCount === leaves.length
+      ? 'checked'
+      : 'indeterminate';
   };
 
-  const deselect = (deselected: T) => {
-    if (multi) {
-      assertMulti(props);
+  const toggleTreeOptions = (...treeOptions: T[]) => {
+    // Disabled leaves keep their selection
+    const leaves = treeOptions
+      .flatMap((option) => getLeaves(option, menuChildrenFn))
+      .filter(isLeafEnabled);
+
+    const nextLeaves =
+      getTreeStatus(...treeOptions) === 'checked'
+        ? selectedLeaves.filter(
+            (sel) => !leaves.some((leaf) => optionCompare(leaf, sel))
+          )
+        : selectedLeaves.concat(leaves.filter((leaf) => !isLeafSelected(leaf)));
+
+    dispatch({
+      type: 'replaceSelected',
+      options: applySelectionStrategy(
+        options ?? [],
+        nextLeaves,
+        treeChildrenFn,
+        selectionStrategy
+      ),
+    });
+  };
 
-      const newValue = (value as T[] | undefined)?.filter(
-        (val) => !optionCompare(val, deselected)
-      );
+  React.useImperativeHandle(ref, () => ({
+    open: openMenu,
+    close: closeMenu,
+    focus: () => anchorRef.current?.focus(),
+    blur: () => anchorRef.current?.blur(),
+    clear: clearSelected,
+    select,
+    isOpen: () => menuVisible,
+  }));
+
+  // Grouped options are rendered section by section
+  const keyboardOptions = React.useMemo(
+    () =>
+      groupBy && filteredOptions
+        ? groupOptions(filteredOptions, groupBy).flatMap(
+            (section) => section.data
+          )
+        : filteredOptions,
+    [filteredOptions, groupBy]
+  );
 
-      // Keep track of value in local state when input is not controlled
-      if (!isControlled) {
-        setUncontrolledValue(newValue);
+  const keyboard = useMenuKeyboard({
+    options: keyboardOptions,
+    selected: Array.isArray(menuSelected) ? menuSelected[0] : menuSelected,
+    labelFn,
+    disabledFn,
+    menuVisible,
+    openMenu,
+    closeMenu: () => dispatch({ type: 'closeMenu', reason: 'cancel' }),
+    activate: (option) => {
+      if (isTree && multi !== false) {
+        toggleTreeOptions(option);
+      } else if (multi === false) {
+        // Choosing the selected option again confirms it
+        if (!optionCompare(menuSelected, option)) {
+          select(option);
+        } else if (isConfirming) {
+          dispatch({ type: 'commit' });
+        } else {
+          dispatch({ type: 'closeMenu', reason: 'select' });
+        }
+      } else if (
+        Array.isArray(menuSelected) &&
+        menuSelected.some((val) => optionCompare(val, option))
+      ) {
+        deselect(option);
+      } else {
+        select(option);
       }
+    },
+  });
+
+  const listboxId = React.useId();
+
+  // Keyboard events and ARIA relationships are only supported by react-native-web
+  const keyboardProps: Record<string, unknown> =
+    Platform.OS === 'web' && renderMenu !== false && !isInline
+      ? {
+          'onKeyDown': keyboard.onKeyDown,
+          'aria-readonly': editable ? undefined : true,
+          'aria-controls': menuVisible ? listboxId : undefined,
+          'aria-activedescendant':
+            keyboard.highlighted === undefined
+              ? undefined
+              : getOptionId(listboxId, valueFn(keyboard.highlighted)),
+        }
+      : {};
 
-      props.onSelection && props.onSelection(newValue as T[] | undefined);
-    } else {
-      // no-op
-    }
-  };
+  const optionCount = filteredOptions?.length ?? 0;
 
-  const openMenu = React.useCallback(() => {
-    if (renderMenu && !disabled) {
-      // Close keyboard to make best use of screen space
-      Keyboard.dismiss();
+  const optionsAnnouncement =
+    !menuVisible || loader.loading
+      ? undefined
+      : optionCount === 0
+      ? noOptionsText
+      : `${optionCount} ${optionCount === 1 ? 'option' : 'options'} available`;
 
-      setMenuVisible(true);
+  // Announce the number of options once the menu opens, and as it changes while searching
+  React.useEffect(() => {
+    if (optionsAnnouncement !== undefined) {
+      AccessibilityInfo.announceForAccessibility(optionsAnnouncement);
+    }
+  }, [optionsAnnouncement]);
+
+  // Selection last announced, to announce only the options that changed
+  const announcedSelected = React.useRef(menuSelected);
+
+  // Announce options as they are selected or deselected
+  React.useEffect(() => {
+    const toArray = (selection?: T | T[]) =>
+      selection === undefined
+        ? []
+        : Array.isArray(selection)
+        ? selection
+        : [selection];
+
+    const prev = toArray(announcedSelected.current);
+    const next = toArray(menuSelected);
+
+    announcedSelected.current = menuSelected;
+
+    const notIn = (others: T[]) => (option: T) =>
+      !others.some((other) => optionCompare(other, option));
+
+    const messages = [
+      ...next
+        .filter(notIn(prev))
+        .map((option) => `${labelFn(option)} selected`),
+      ...prev
+        .filter(notIn(next))
+        .map((option) => `${labelFn(option)} deselected`),
+    ];
+
+    if (messages.length > 0) {
+      AccessibilityInfo.announceForAccessibility(messages.join(', '));
     }
-  }, [renderMenu, disabled]);
+  }, [menuSelected, labelFn]);
 
-  const closeMenu = React.useCallback(() => {
-    setMenuVisible(false);
-  }, []);
+  const confirm = () =>
+    dispatch(
+      isConfirming ? { type: 'commit' } : { type: 'closeMenu', reason: 'ok' }
+    );
+
+  const menuState: PaperSelectMenuState = {
+    query,
+    closeMenu,
+    confirm,
+    clearSelected,
+  };
 
   const renderAnchor = () => {
     if (props.renderFn === undefined) {
       return (
         <TextInputAnchor
+          ref={anchorRef}
           active={menuVisible}
           label={label}
           value={getLabel()}
-          onPress={() => openMenu()}
-          disabled={disabled}
+          onPress={editable ? () => openMenu() : undefined}
+          editable={editable}
+          disabled={isDisabled}
           error={error}
           testID={testID ? `${testID}-anchor` : undefined}
         />
@@ -416,6 +1272,8 @@ export const PaperSelect = <T extends NonNullable<any>>(
           clearSelected,
           select,
           deselect,
+          selectMany,
+          deselectMany,
         });
       } else {
         assertSingle(props);
@@ -435,31 +1293,110 @@ export const PaperSelect = <T extends NonNullable<any>>(
 
   return (
     <View
-      accessible={true}
-      accessibilityRole="combobox"
+      ref={comboboxRef}
+      accessible={!isInline}
+      accessibilityRole={
+        isInline ? (multi ? undefined : 'radiogroup') : 'combobox'
+      }
       accessibilityLabel={label}
       accessibilityValue={{ text: getValue() }}
-      accessibilityState={{ disabled, expanded: menuVisible }}
+      accessibilityState={{
+        disabled: isDisabled,
+        expanded: editable && !isInline ? menuVisible : undefined,
+      }}
+      accessibilityHint={
+        accessibilityHint ?? (editable || isDisabled ? undefined : 'Read only')
+      }
       testID={testID}
+      {...keyboardProps}
       {...viewProps}
     >
-      {renderMenu === false ? (
+      {isInline ? (
+        <InlineOptions
+          options={filteredOptions}
+          selected={value}
+          mode={renderMenu === 'chips' ? 'chips' : 'list'}
+          multi={multi !== false}
+          indicator={
+            indicator === 'radio' && multi !== false ? 'checkbox' : indicator
+          }
+          label={label}
+          disabled={isDisabled || !editable}
+          valueFn={valueFn}
+          labelFn={labelFn}
+          disabledFn={disabledFn}
+          select={select}
+          deselect={deselect}
+          testID={testID ? `${testID}-inline` : undefined}
+        />
+      ) : renderMenu === false ? (
         renderAnchor()
       ) : (
         <ModalMenu
-          options={options}
-          selected={value}
+          options={filteredOptions}
+          selected={menuSelected}
+          listboxId={listboxId}
+          highlighted={keyboard.highlighted}
           visible={menuVisible}
           label={label}
           valueFn={valueFn}
           labelFn={labelFn}
-          checkboxes={multi === 'checkboxes'}
+          disabledFn={disabledFn}
+          descriptionFn={descriptionFn}
+          iconFn={iconFn}
+          multi={multi !== false}
+          indicator={
+            indicator === undefined
+              ? multi === 'checkboxes'
+                ? 'checkbox'
+                : 'none'
+              : indicator === 'radio' && multi !== false
+              ? 'checkbox'
+              : indicator
+          }
+          maxSelected={maxSelected}
+          groupBy={groupBy}
+          groupSelectAll={multi !== false && groupSelectAll}
+          selectAll={multi !== false && selectAll}
+          childrenFn={isTree ? menuChildrenFn : undefined}
+          getTreeStatus={isTree && multi !== false ? getTreeStatus : undefined}
+          toggleTreeOptions={
+            isTree && multi !== false ? toggleTreeOptions : undefined
+          }
+          selectAllText={selectAllText}
           noneOption={noneOption}
+          nullable={nullable && !(minSelected !== undefined && minSelected > 0)}
+          searchable={searchable || creatable}
+          createLabel={canCreate ? createOptionLabel(createQuery) : undefined}
+          creating={creating}
+          onCreate={createOption}
+          searchPlaceholder={searchPlaceholder}
+          loading={loader.loading}
+          loadingMore={loader.loadingMore}
+          onEndReached={loader.loadMore}
+          errorText={loader.error !== undefined ? loadErrorText : undefined}
+          onRetry={loader.retry}
+          emptyText={noOptionsText}
+          query={query}
+          onQueryChange={setQuery}
           mode={renderMenu}
+          maxDropdownHeight={maxDropdownHeight}
           select={select}
           deselect={deselect}
+          selectMany={selectMany}
+          deselectMany={deselectMany}
           clearSelected={clearSelected}
-          onDismiss={closeMenu}
+          onDismiss={() => dispatch({ type: 'closeMenu', reason: 'backdrop' })}
+          onConfirm={confirm}
+          onCancel={
+            isConfirming
+              ? () => dispatch({ type: 'closeMenu', reason: 'cancel' })
+              : undefined
+          }
+          renderOption={renderOption}
+          renderHeader={renderMenuHeader && (() => renderMenuHeader(menuState))}
+          renderFooter={renderMenuFooter && (() => renderMenuFooter(menuState))}
+          renderEmpty={renderEmpty && (() => renderEmpty(menuState))}
           testID={testID ? `${testID}-modal` : undefined}
         >
           {renderAnchor()}
@@ -469,4 +1406,36 @@ export const PaperSelect = <T extends NonNullable<any>>(
   );
 };
 
+/**
+ * A component that allows users to make a selection from a list of options
+ *
+ * ## Usage
+ * ```js
+ * import * as React from 'react';
+ * import { PaperSelect } from '@rcarls/react-native-paper-select';
+ *
+ * const options = ['one', 'two', 'three'];
+ *
+ * const MyComponent = () => {
+ *   const [value, setValue] = React.useState('');
+ *
+ *   return (
+ *     <PaperSelect
+ *       label="Example"
+ *       options={options}
+ *       value={value}
+ *       onSelection={(option) => setValue(option)}
+ *     />
+ *   );
+ * };
+ *
+ * export default MyComponent;
+ * ```
+ */
+export const PaperSelect = React.forwardRef(PaperSelectWithRef) as <
+  T extends NonNullable<any>
+>(
+  props: PaperSelectProps<T> & React.RefAttributes<PaperSelectHandle<T>>
+) => React.ReactElement;
+
 export default PaperSelect;
@@ -23,6 +23,9 @@ export type TextInputAnchorProps = {
   /** If true, style like an open select input */
   active?: boolean;
 
+  /** If false, style like a read-only input, without the menu indicator */
+  editable?: boolean;
+
   /** The text to use for the rendered and accessibility label. */
   label?: string;
 
@@ -31,12 +34,13 @@ export type TextInputAnchorProps = {
 } & SupportedInputProps &
   SupportedPressableProps;
 
-/**
- * Basically just a react-native-paper `TextInput` underneath a `Pressable`
- */
-export const TextInputAnchor = (props: TextInputAnchorProps) => {
+const TextInputAnchorWithRef = (
+  props: TextInputAnchorProps,
+  ref: React.ForwardedRef<View>
+) => {
   const {
     active = false,
+    editable = true,
     testID,
 
     // TextInput props
@@ -91,6 +95,7 @@ export const TextInputAnchor = (props: TextInputAnchorProps) => {
   return (
     <>
       <Pressable
+        ref={ref}
         onFocus={(e) => onFocus(e)}
         onBlur={(e) => onBlur(e)}
         style={styles.pressable}
@@ -104,12 +109,14 @@ export const TextInputAnchor = (props: TextInputAnchorProps) => {
           editable={false}
           disabled={disabled}
           right={
-            <TextInput.Icon
-              icon={active ? 'chevron-up' : 'chevron-down'}
-              accessible={true}
-              accessibilityRole="none"
-              disabled={true}
-            />
+            editable ? (
+              <TextInput.Icon
+                icon={active ? 'chevron-up' : 'chevron-down'}
+                accessible={true}
+                accessibilityRole="none"
+                disabled={true}
+              />
+            ) : undefined
           }
           theme={{
             colors: {
@@ -136,4 +143,11 @@ export const TextInputAnchor = (props: TextInputAnchorProps) => {
   );
 };
 
+/**
+ * Basically just a react-native-paper `TextInput` underneath a `Pressable`
+ *
+ * The forwarded ref is attached to the `Pressable`.
+ */
+export const TextInputAnchor = React.forwardRef(TextInputAnchorWithRef);
+
 export default TextInputAnchor;
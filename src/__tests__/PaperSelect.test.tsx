@@ -1,14 +1,28 @@
 import * as React from 'react';
-import { render, screen } from '@testing-library/react-native';
+import { render, screen, fireEvent, act } from '@testing-library/react-native';
+import {
+  AccessibilityInfo,
+  Dimensions,
+  FlatList,
+  Platform,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
 import { PaperProviderContext } from '../testUtils';
 
-import { PaperSelect } from '../PaperSelect';
+import { PaperSelect, type PaperSelectHandle } from '../PaperSelect';
 
 describe('<PaperSelect />', () => {
   it('should match snapshot', () => {
+    // Keep the input's mount animations from running after the environment is torn down
+    jest.useFakeTimers();
+
     render(<PaperSelect />, { wrapper: PaperProviderContext });
 
     expect(screen).toMatchSnapshot();
+
+    jest.useRealTimers();
   });
 
   it('should exist in the DOM', async () => {
@@ -18,4 +32,1475 @@ describe('<PaperSelect />', () => {
 
     expect(component).toBeDefined();
   });
+
+  describe('searchable', () => {
+    const options = ['Austria', 'Australia', 'Belgium'];
+
+    it('should filter options by label', () => {
+      render(
+        <PaperSelect
+          label="Country"
+          options={options}
+          renderMenu="modal"
+          searchable
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.changeText(screen.getByTestId('select-modal-search'), 'aus');
+
+      expect(screen.getByText('Austria')).toBeTruthy();
+      expect(screen.getByText('Australia')).toBeTruthy();
+      expect(screen.queryByText('Belgium')).toBeNull();
+    });
+
+    it('should use filterFn when supplied', () => {
+      render(
+        <PaperSelect
+          label="Country"
+          options={options}
+          renderMenu="modal"
+          searchable
+          filterFn={(option, query) => option.startsWith(query)}
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.changeText(screen.getByTestId('select-modal-search'), 'B');
+
+      expect(screen.getByText('Belgium')).toBeTruthy();
+      expect(screen.queryByText('Austria')).toBeNull();
+    });
+  });
+
+  describe('loadOptions', () => {
+    it('should show loaded options', async () => {
+      const loadOptions = jest.fn(() => Promise.resolve(['one', 'two']));
+
+      render(
+        <PaperSelect
+          label="Example"
+          loadOptions={loadOptions}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(screen.getByTestId('select-modal-loading')).toBeTruthy();
+      expect(await screen.findByText('two')).toBeTruthy();
+      expect(loadOptions).toHaveBeenCalledWith('', {
+        signal: expect.any(AbortSignal),
+      });
+    });
+
+    it('should show an error row and retry', async () => {
+      const loadOptions = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValueOnce(['one']);
+
+      render(
+        <PaperSelect
+          label="Example"
+          loadOptions={loadOptions}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(await screen.findByText('Failed to load options')).toBeTruthy();
+
+      fireEvent.press(screen.getByText('Retry'));
+
+      expect(await screen.findByText('one')).toBeTruthy();
+      expect(loadOptions).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('loadMorePages', () => {
+    it('should append pages until there is no next cursor', async () => {
+      const loadMorePages = jest.fn((cursor?: string | number) =>
+        Promise.resolve(
+          cursor === undefined
+            ? { options: ['one', 'two'], nextCursor: 2 }
+            : { options: ['three'] }
+        )
+      );
+
+      render(
+        <PaperSelect
+          label="Example"
+          loadMorePages={loadMorePages}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(await screen.findByText('two')).toBeTruthy();
+
+      fireEvent(screen.UNSAFE_getByType(FlatList), 'endReached');
+
+      expect(await screen.findByText('three')).toBeTruthy();
+
+      fireEvent(screen.UNSAFE_getByType(FlatList), 'endReached');
+
+      expect(loadMorePages).toHaveBeenCalledTimes(2);
+      expect(loadMorePages).toHaveBeenLastCalledWith(2, {
+        query: '',
+        signal: expect.any(AbortSignal),
+      });
+    });
+  });
+
+  describe('groupBy', () => {
+    const options = [
+      { value: 'fr', label: 'France', region: 'Europe' },
+      { value: 'jp', label: 'Japan', region: 'Asia' },
+      { value: 'de', label: 'Germany', region: 'Europe' },
+    ];
+
+    it('should render section headers', () => {
+      render(
+        <PaperSelect
+          label="Country"
+          options={options}
+          groupBy={(option) => option.region}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(screen.getByText('Europe')).toBeTruthy();
+      expect(screen.getByText('Asia')).toBeTruthy();
+    });
+
+    it('should select all options in a group', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          multi
+          label="Country"
+          options={options}
+          groupBy={(option) => option.region}
+          groupSelectAll
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.press(screen.getByTestId('select-modal-group-Europe'));
+
+      expect(onSelection).toHaveBeenCalledWith([options[0], options[2]]);
+    });
+  });
+
+  describe('option metadata', () => {
+    const plans = [
+      { value: 'free', label: 'Free', price: '$0/mo' },
+      { value: 'pro', label: 'Pro', price: '$20/mo', soldOut: true },
+    ];
+
+    it('should render descriptions and not select disabled options', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Plan"
+          options={plans}
+          disabledFn={(option) => option.soldOut === true}
+          descriptionFn={(option) => option.price}
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(screen.getByText('$20/mo')).toBeTruthy();
+
+      fireEvent.press(screen.getByText('Pro'));
+      expect(onSelection).not.toHaveBeenCalled();
+
+      fireEvent.press(screen.getByText('Free'));
+      expect(onSelection).toHaveBeenCalledWith(plans[0]);
+    });
+  });
+
+  describe('render slots', () => {
+    it('should render options with renderOption', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          renderOption={({ option, selected, onPress }) => (
+            <Text onPress={onPress}>{`${option}${selected ? ' *' : ''}`}</Text>
+          )}
+          defaultValue="two"
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(screen.getByText('two *')).toBeTruthy();
+
+      fireEvent.press(screen.getByText('one'));
+      expect(onSelection).toHaveBeenCalledWith('one');
+    });
+
+    it('should render renderEmpty when there are no options', () => {
+      render(
+        <PaperSelect
+          label="Example"
+          options={[]}
+          renderEmpty={() => <Text>Nothing here</Text>}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(screen.getByText('Nothing here')).toBeTruthy();
+    });
+  });
+
+  describe('ref', () => {
+    it('should open the menu and select options', () => {
+      const ref = React.createRef<PaperSelectHandle<string>>();
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          ref={ref}
+          label="Example"
+          options={['one', 'two']}
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      act(() => ref.current?.open());
+
+      expect(ref.current?.isOpen()).toBe(true);
+      expect(screen.getByText('two')).toBeTruthy();
+
+      act(() => ref.current?.select('two'));
+
+      expect(onSelection).toHaveBeenCalledWith('two');
+      expect(ref.current?.isOpen()).toBe(false);
+    });
+  });
+
+  describe('menu visibility', () => {
+    it('should report close reasons', () => {
+      const onOpen = jest.fn();
+      const onClose = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          onOpen={onOpen}
+          onClose={onClose}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      expect(onOpen).toHaveBeenCalledTimes(1);
+
+      fireEvent.press(screen.getByText('two'));
+      expect(onClose).toHaveBeenLastCalledWith('select');
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.press(screen.getByText('Ok'));
+      expect(onClose).toHaveBeenLastCalledWith('ok');
+    });
+
+    it('should report dismissal with "Cancel"', () => {
+      const onDismiss = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          commitMode="confirm"
+          onDismiss={onDismiss}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.press(screen.getByText('Ok'));
+
+      expect(onDismiss).not.toHaveBeenCalled();
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.press(screen.getByText('Cancel'));
+
+      expect(onDismiss).toHaveBeenCalledTimes(1);
+    });
+
+    it('should be controlled by open', () => {
+      const onOpenChange = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          open={true}
+          onOpenChange={onOpenChange}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      expect(screen.getByText('two')).toBeTruthy();
+
+      fireEvent.press(screen.getByText('two'));
+
+      expect(onOpenChange).toHaveBeenCalledWith(false);
+      expect(screen.getByText('two')).toBeTruthy();
+    });
+
+    it('should not report a refused close as the reason for a later one', () => {
+      const onClose = jest.fn();
+
+      const { rerender } = render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          open={true}
+          onClose={onClose}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByText('two'));
+
+      rerender(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          open={false}
+          onClose={onClose}
+          renderMenu="modal"
+          testID="select"
+        />
+      );
+
+      expect(onClose).toHaveBeenCalledTimes(1);
+      expect(onClose).toHaveBeenCalledWith('programmatic');
+    });
+
+    it('should keep the draft while a controlled open refuses to close', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          multi
+          label="Example"
+          options={['one', 'two']}
+          open={true}
+          commitMode="confirm"
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByText('one'));
+      fireEvent.press(screen.getByText('Cancel'));
+      fireEvent.press(screen.getByText('two'));
+      fireEvent.press(screen.getByText('Ok'));
+
+      expect(onSelection).toHaveBeenCalledWith(['one', 'two']);
+    });
+  });
+
+  describe('commitMode', () => {
+    it('should only commit the selection with "Ok"', () => {
+      const onSelection = jest.fn();
+      const onSelectionCommit = jest.fn();
+
+      render(
+        <PaperSelect
+          multi
+          label="Example"
+          options={['one', 'two']}
+          commitMode="confirm"
+          onSelection={onSelection}
+          onSelectionCommit={onSelectionCommit}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.press(screen.getByText('one'));
+      fireEvent.press(screen.getByText('Cancel'));
+
+      expect(onSelection).not.toHaveBeenCalled();
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.press(screen.getByText('two'));
+      fireEvent.press(screen.getByText('Ok'));
+
+      expect(onSelection).toHaveBeenCalledTimes(1);
+      expect(onSelectionCommit).toHaveBeenCalledWith(['two']);
+    });
+
+    it('should keep the selection when confirming a menu that starts open', () => {
+      jest.useFakeTimers();
+
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          defaultValue="one"
+          defaultOpen
+          commitMode="confirm"
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByText('Ok'));
+
+      expect(onSelection).not.toHaveBeenCalled();
+
+      jest.useRealTimers();
+    });
+  });
+
+  describe('nullable', () => {
+    it('should render the none option in modal mode', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          defaultValue="one"
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.press(screen.getByText('(None)'));
+
+      expect(onSelection).toHaveBeenCalledWith(undefined);
+    });
+
+    it('should not permit clearing when false', () => {
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          defaultValue="one"
+          nullable={false}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(screen.queryByText('(None)')).toBeNull();
+      expect(screen.queryByText('Clear')).toBeNull();
+    });
+  });
+
+  describe('creatable', () => {
+    it('should create and select an option from the query', async () => {
+      const onSelection = jest.fn();
+      const onCreateOption = jest.fn((query: string) => Promise.resolve(query));
+
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          onSelection={onSelection}
+          renderMenu="modal"
+          creatable
+          onCreateOption={onCreateOption}
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.changeText(screen.getByTestId('select-modal-search'), 'three');
+
+      await act(async () => {
+        fireEvent.press(screen.getByText('Add "three"'));
+      });
+
+      expect(onCreateOption).toHaveBeenCalledWith('three');
+      expect(onSelection).toHaveBeenCalledWith('three');
+    });
+
+    it('should keep selections made while an option is being created', async () => {
+      const onSelection = jest.fn();
+
+      let resolveCreate: (option: string) => void = () => {};
+      const onCreateOption = () =>
+        new Promise<string>((resolve) => {
+          resolveCreate = resolve;
+        });
+
+      render(
+        <PaperSelect
+          label="Example"
+          multi
+          options={['apple', 'banana']}
+          onSelection={onSelection}
+          renderMenu="modal"
+          creatable
+          onCreateOption={onCreateOption}
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.changeText(screen.getByTestId('select-modal-search'), 'cherry');
+      fireEvent.press(screen.getByText('Add "cherry"'));
+
+      fireEvent.changeText(screen.getByTestId('select-modal-search'), '');
+      fireEvent.press(screen.getByText('apple'));
+
+      expect(onSelection).toHaveBeenLastCalledWith(['apple']);
+
+      await act(async () => resolveCreate('cherry'));
+
+      expect(onSelection).toHaveBeenLastCalledWith(['apple', 'cherry']);
+    });
+
+    it('should stop creating when onCreateOption throws', async () => {
+      const onCreateOption = () => {
+        throw new Error('Invalid option');
+      };
+
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          renderMenu="modal"
+          creatable
+          onCreateOption={onCreateOption}
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.changeText(screen.getByTestId('select-modal-search'), 'three');
+
+      await act(async () => {
+        fireEvent.press(screen.getByText('Add "three"'));
+      });
+
+      expect(
+        screen.getByTestId('select-modal-create').props.accessibilityState
+      ).toMatchObject({ busy: false });
+    });
+
+    it('should not offer to create an existing option', () => {
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          renderMenu="modal"
+          creatable
+          onCreateOption={(query) => query}
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.changeText(screen.getByTestId('select-modal-search'), 'One');
+
+      expect(screen.queryByTestId('select-modal-create')).toBeNull();
+    });
+  });
+
+  describe('selectAll', () => {
+    const options = ['Austria', 'Australia', 'Belgium', 'Brazil'];
+
+    it('should select all enabled options at once', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Country"
+          multi
+          options={options}
+          disabledFn={(option) => option === 'Brazil'}
+          selectAll
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.press(screen.getByText('Select all'));
+
+      expect(onSelection).toHaveBeenCalledTimes(1);
+      expect(onSelection).toHaveBeenCalledWith([
+        'Austria',
+        'Australia',
+        'Belgium',
+      ]);
+    });
+
+    it('should only affect filtered options while searching', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Country"
+          multi
+          options={options}
+          defaultValue={['Belgium']}
+          selectAll
+          searchable
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.changeText(screen.getByTestId('select-modal-search'), 'aus');
+
+      expect(
+        screen.getByTestId('select-modal-select-all').props.accessibilityState
+      ).toMatchObject({ checked: false });
+
+      fireEvent.press(screen.getByText('Select all'));
+
+      expect(onSelection).toHaveBeenCalledWith([
+        'Austria',
+        'Australia',
+        'Belgium',
+      ]);
+    });
+
+    it('should not count options disabled by maxSelected as selected', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Country"
+          multi
+          options={options}
+          defaultValue={['Austria', 'Australia']}
+          maxSelected={2}
+          selectAll
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(
+        screen.getByTestId('select-modal-select-all').props.accessibilityState
+      ).not.toMatchObject({ checked: true });
+
+      fireEvent.press(screen.getByText('Select all'));
+
+      expect(onSelection).not.toHaveBeenCalledWith([]);
+    });
+  });
+
+  describe('tree', () => {
+    const options = [
+      {
+        value: 'fruit',
+        children: [{ value: 'apple' }, { value: 'pear' }],
+      },
+      { value: 'bread' },
+    ];
+
+    it('should expand and collapse options with children', () => {
+      render(
+        <PaperSelect
+          label="Category"
+          multi="checkboxes"
+          options={options}
+          tree
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(screen.queryByText('apple')).toBeNull();
+
+      fireEvent.press(screen.getByTestId('select-modal-expand-fruit'));
+
+      expect(screen.getByText('apple')).toBeTruthy();
+
+      fireEvent.press(screen.getByTestId('select-modal-expand-fruit'));
+
+      expect(screen.queryByText('apple')).toBeNull();
+    });
+
+    it('should search options with their ancestors', () => {
+      const regions = [
+        {
+          value: 'Europe',
+          children: [{ value: 'Europe West' }, { value: 'Nordics' }],
+        },
+        { value: 'Asia' },
+      ];
+
+      render(
+        <PaperSelect
+          label="Region"
+          multi="checkboxes"
+          options={regions}
+          tree
+          searchable
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.changeText(screen.getByTestId('select-modal-search'), 'west');
+
+      expect(screen.queryByText('Asia')).toBeNull();
+
+      fireEvent.press(screen.getByTestId('select-modal-expand-Europe'));
+
+      expect(screen.getByText('Europe West')).toBeTruthy();
+      expect(screen.queryByText('Nordics')).toBeNull();
+
+      fireEvent.changeText(screen.getByTestId('select-modal-search'), 'europe');
+
+      expect(screen.getAllByText('Europe West')).toHaveLength(1);
+      expect(screen.getByText('Nordics')).toBeTruthy();
+    });
+
+    it('should select all options with their descendants', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Category"
+          multi="checkboxes"
+          options={options}
+          tree
+          selectAll
+          searchable
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.changeText(screen.getByTestId('select-modal-search'), 'pear');
+      fireEvent.press(screen.getByTestId('select-modal-select-all'));
+
+      expect(onSelection).toHaveBeenLastCalledWith([{ value: 'pear' }]);
+
+      fireEvent.changeText(screen.getByTestId('select-modal-search'), '');
+      fireEvent.press(screen.getByTestId('select-modal-select-all'));
+
+      expect(onSelection).toHaveBeenLastCalledWith([
+        options[0],
+        { value: 'apple' },
+        { value: 'pear' },
+        options[1],
+      ]);
+    });
+
+    it('should select descendants of a parent', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Category"
+          multi="checkboxes"
+          options={options}
+          tree
+          selectionStrategy="leaves"
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.press(screen.getByText('fruit'));
+
+      expect(onSelection).toHaveBeenCalledWith([
+        { value: 'apple' },
+        { value: 'pear' },
+      ]);
+    });
+
+    it('should show a partially selected parent as mixed', () => {
+      render(
+        <PaperSelect
+          label="Category"
+          multi="checkboxes"
+          options={options}
+          defaultValue={[{ value: 'apple' }]}
+          tree
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(
+        screen.getByRole('checkbox', { name: 'fruit' }).props.accessibilityState
+      ).toMatchObject({ checked: 'mixed' });
+    });
+
+    it('should deselect a parent with an unselected disabled descendant', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Category"
+          multi="checkboxes"
+          options={options}
+          tree
+          disabledFn={(option) => option.value === 'pear'}
+          selectionStrategy="leaves"
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.press(screen.getByText('fruit'));
+
+      expect(onSelection).toHaveBeenLastCalledWith([{ value: 'apple' }]);
+
+      fireEvent.press(screen.getByText('fruit'));
+
+      expect(onSelection).toHaveBeenLastCalledWith([]);
+    });
+  });
+
+  describe('accessibility', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should announce the number of options and selections', () => {
+      const announce = jest
+        .spyOn(AccessibilityInfo, 'announceForAccessibility')
+        .mockImplementation(() => {});
+
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          defaultValue="one"
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(announce).toHaveBeenCalledWith('2 options available');
+
+      fireEvent.press(screen.getByText('two'));
+
+      expect(announce).toHaveBeenCalledWith('two selected, one deselected');
+    });
+
+    it('should return focus to the combobox only when closed by the user', () => {
+      jest.useFakeTimers();
+
+      // Test views have no native node to focus
+      jest
+        .spyOn(jest.requireActual('react-native'), 'findNodeHandle', 'get')
+        .mockReturnValue(() => 1);
+
+      const setFocus = jest
+        .spyOn(AccessibilityInfo, 'setAccessibilityFocus')
+        .mockImplementation(() => {});
+
+      const ref = React.createRef<PaperSelectHandle<string>>();
+
+      render(
+        <PaperSelect
+          ref={ref}
+          label="Example"
+          options={['one', 'two']}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      act(() => ref.current?.open());
+      act(() => ref.current?.close());
+
+      expect(setFocus).not.toHaveBeenCalled();
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.press(screen.getByText('two'));
+
+      expect(setFocus).toHaveBeenCalledWith(1);
+
+      jest.useRealTimers();
+    });
+
+    it('should use a supplied accessibilityHint', () => {
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          accessibilityHint="Choose a number"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      expect(screen.getByTestId('select').props.accessibilityHint).toBe(
+        'Choose a number'
+      );
+    });
+  });
+
+  describe('keyboard', () => {
+    const platform = Platform.OS;
+
+    beforeEach(() => {
+      Platform.OS = 'web';
+    });
+
+    afterEach(() => {
+      Platform.OS = platform;
+    });
+
+    const key = (name: string) => ({ key: name, preventDefault: jest.fn() });
+
+    // Paper's input applies web-only styles that native views reject
+    const renderFn = () => <Text>Anchor</Text>;
+
+    it('should close a single-select when choosing the selected option', () => {
+      const onClose = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          defaultValue="two"
+          onClose={onClose}
+          renderMenu="modal"
+          renderFn={renderFn}
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent(screen.getByTestId('select'), 'keyDown', key('Enter'));
+
+      expect(
+        screen.getByTestId('select').props.accessibilityState.expanded
+      ).toBe(true);
+
+      fireEvent(screen.getByTestId('select'), 'keyDown', key('Enter'));
+
+      expect(
+        screen.getByTestId('select').props.accessibilityState.expanded
+      ).toBe(false);
+      expect(onClose).toHaveBeenCalledWith('select');
+    });
+
+    it('should select the highlighted option on a single-select', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          defaultValue="one"
+          onSelection={onSelection}
+          renderMenu="modal"
+          renderFn={renderFn}
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent(screen.getByTestId('select'), 'keyDown', key('Enter'));
+      fireEvent(screen.getByTestId('select'), 'keyDown', key('ArrowDown'));
+      fireEvent(screen.getByTestId('select'), 'keyDown', key('Enter'));
+
+      expect(onSelection).toHaveBeenCalledWith('two');
+      expect(
+        screen.getByTestId('select').props.accessibilityState.expanded
+      ).toBe(false);
+    });
+
+    it('should move through grouped options in the order they are rendered', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Country"
+          options={['France', 'Japan', 'Germany']}
+          groupBy={(option) => (option === 'Japan' ? 'Asia' : 'Europe')}
+          onSelection={onSelection}
+          renderMenu="modal"
+          renderFn={renderFn}
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent(screen.getByTestId('select'), 'keyDown', key('ArrowDown'));
+      fireEvent(screen.getByTestId('select'), 'keyDown', key('ArrowDown'));
+      fireEvent(screen.getByTestId('select'), 'keyDown', key('Enter'));
+
+      expect(onSelection).toHaveBeenCalledWith('Germany');
+    });
+  });
+
+  describe('indicator', () => {
+    it('should render radio options on a single-select', () => {
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          defaultValue="two"
+          indicator="radio"
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(
+        screen.getByRole('radio', { name: 'two' }).props.accessibilityState
+      ).toMatchObject({ checked: true });
+      expect(
+        screen.getByRole('radio', { name: 'one' }).props.accessibilityState
+      ).toMatchObject({ checked: false });
+    });
+
+    it('should use the checkbox role on a multi-select', () => {
+      render(
+        <PaperSelect
+          label="Example"
+          multi
+          options={['one', 'two']}
+          indicator="check"
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(screen.getByRole('checkbox', { name: 'one' })).toBeTruthy();
+      expect(screen.queryByRole('radio')).toBeNull();
+    });
+  });
+
+  describe('inline rendering', () => {
+    it('should select from an inline list', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Size"
+          options={['S', 'M', 'L']}
+          onSelection={onSelection}
+          renderMenu="inline-list"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      expect(screen.queryByTestId('select-anchor-pressable')).toBeNull();
+
+      fireEvent.press(screen.getByRole('radio', { name: 'M' }));
+
+      expect(onSelection).toHaveBeenCalledWith('M');
+    });
+
+    it('should toggle filter chips on a multi-select', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Size"
+          multi
+          options={['S', 'M', 'L']}
+          defaultValue={['S']}
+          onSelection={onSelection}
+          renderMenu="chips"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-inline-option-L'));
+
+      expect(onSelection).toHaveBeenLastCalledWith(['S', 'L']);
+
+      fireEvent.press(screen.getByTestId('select-inline-option-S'));
+
+      expect(onSelection).toHaveBeenLastCalledWith(['L']);
+    });
+  });
+
+  describe('auto menu', () => {
+    const window = Dimensions.get('window');
+
+    const setWidth = (width: number) =>
+      act(() => Dimensions.set({ window: { ...window, width } }));
+
+    afterEach(() => setWidth(window.width));
+
+    it('should switch between full-screen and modal as the window resizes', () => {
+      setWidth(390);
+
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          renderMenu="auto"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      const surfaceStyle = () =>
+        StyleSheet.flatten(
+          screen.getByTestId('select-modal-surface-outer-layer').props.style
+        );
+
+      expect(surfaceStyle().height).toBe('100%');
+
+      setWidth(768);
+
+      expect(surfaceStyle().height).toBeUndefined();
+    });
+
+    it('should render a dropdown on wide windows', () => {
+      setWidth(1280);
+
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          renderMenu="auto"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(screen.getByText('one')).toBeTruthy();
+      expect(screen.queryByText('Ok')).toBeNull();
+
+      // Native platforms reject 'none' as a dimension
+      const styles = screen
+        .UNSAFE_getAllByType(View)
+        .map((view) => StyleSheet.flatten(view.props.style) ?? {});
+
+      expect(styles).not.toContainEqual(
+        expect.objectContaining({ minHeight: 'none' })
+      );
+      expect(styles).not.toContainEqual(
+        expect.objectContaining({ maxHeight: 'none' })
+      );
+    });
+
+    it('should keep the open menu while options load', async () => {
+      setWidth(1280);
+
+      const options = Array.from({ length: 60 }, (_, index) => `${index}`);
+      const loadOptions = jest.fn(() => Promise.resolve(options));
+
+      render(
+        <PaperSelect
+          label="Example"
+          loadOptions={loadOptions}
+          renderMenu="auto"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(await screen.findByText('0')).toBeTruthy();
+      expect(screen.queryByText('Ok')).toBeNull();
+
+      fireEvent.press(screen.getByText('0'));
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(await screen.findByText('Ok')).toBeTruthy();
+    });
+  });
+
+  describe('dependsOn', () => {
+    it('should be disabled until the parent has a value', () => {
+      render(
+        <PaperSelect
+          label="State"
+          options={['Victoria', 'Tasmania']}
+          dependsOn={undefined}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(screen.queryByText('Victoria')).toBeNull();
+    });
+
+    it('should reset the selection when the parent value changes', () => {
+      const onSelection = jest.fn();
+
+      const { rerender } = render(
+        <PaperSelect
+          label="State"
+          options={['Victoria', 'Tasmania']}
+          defaultValue="Victoria"
+          dependsOn="Australia"
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      rerender(
+        <PaperSelect
+          label="State"
+          options={['Bavaria', 'Saxony']}
+          defaultValue="Victoria"
+          dependsOn="Germany"
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />
+      );
+
+      expect(onSelection).toHaveBeenCalledWith(undefined);
+    });
+
+    it('should pass the parent value to loadOptions', async () => {
+      const loadOptions = jest.fn(() => Promise.resolve(['Victoria']));
+
+      render(
+        <PaperSelect
+          label="State"
+          loadOptions={loadOptions}
+          dependsOn="Australia"
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(await screen.findByText('Victoria')).toBeTruthy();
+      expect(loadOptions).toHaveBeenCalledWith('', {
+        signal: expect.any(AbortSignal),
+        parentValue: 'Australia',
+      });
+    });
+  });
+
+  describe('selection limits', () => {
+    it('should disable remaining options once maxSelected is reached', () => {
+      const onSelection = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Example"
+          multi
+          options={['one', 'two', 'three']}
+          defaultValue={['one', 'two']}
+          maxSelected={2}
+          onSelection={onSelection}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(screen.getByTestId('select-modal-counter').props.children).toBe(
+        '2 / 2'
+      );
+
+      fireEvent.press(screen.getByText('three'));
+
+      expect(onSelection).not.toHaveBeenCalled();
+    });
+
+    it('should block deselecting below minSelected', () => {
+      const onSelection = jest.fn();
+      const onLimitReached = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Example"
+          multi
+          options={['one', 'two', 'three']}
+          defaultValue={['one']}
+          minSelected={1}
+          onSelection={onSelection}
+          onLimitReached={onLimitReached}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+      fireEvent.press(screen.getByText('one'));
+
+      expect(onSelection).not.toHaveBeenCalled();
+      expect(onLimitReached).toHaveBeenCalledWith('min');
+      expect(screen.queryByText('Clear')).toBeNull();
+    });
+  });
+
+  describe('editable', () => {
+    it('should not open the menu when false', () => {
+      const onOpen = jest.fn();
+
+      render(
+        <PaperSelect
+          label="Example"
+          options={['one', 'two']}
+          defaultValue="one"
+          editable={false}
+          onOpen={onOpen}
+          renderMenu="modal"
+          testID="select"
+        />,
+        { wrapper: PaperProviderContext }
+      );
+
+      fireEvent.press(screen.getByTestId('select-anchor-pressable'));
+
+      expect(onOpen).not.toHaveBeenCalled();
+      expect(screen.getByRole('combobox').props.accessibilityState).toEqual({
+        disabled: false,
+        expanded: undefined,
+      });
+    });
+
+    describe('on web', () => {
+      const platform = Platform.OS;
+
+      beforeEach(() => {
+        Platform.OS = 'web';
+      });
+
+      afterEach(() => {
+        Platform.OS = platform;
+      });
+
+      it('should be marked read-only regardless of the hint', () => {
+        render(
+          <PaperSelect
+            label="Example"
+            options={['one', 'two']}
+            editable={false}
+            accessibilityHint="Set by your administrator"
+            renderMenu="modal"
+            renderFn={() => <Text>Anchor</Text>}
+            testID="select"
+          />,
+          { wrapper: PaperProviderContext }
+        );
+
+        expect(screen.getByTestId('select').props['aria-readonly']).toBe(true);
+      });
+    });
+  });
 });
@@ -0,0 +1,172 @@
+import { createSelectReducer, type SelectState } from '../selectReducer';
+
+const options = ['one', 'two', 'three'];
+
+describe('createSelectReducer', () => {
+  describe('single-select', () => {
+    const reducer = createSelectReducer({ multi: false, options });
+
+    it('should select an option and close the menu', () => {
+      const state: SelectState<string> = { menuVisible: true };
+
+      expect(reducer(state, { type: 'select', option: 'two' })).toEqual({
+        value: 'two',
+        menuVisible: false,
+      });
+    });
+
+    it('should not select an unknown option', () => {
+      const state: SelectState<string> = { value: 'one', menuVisible: true };
+
+      expect(reducer(state, { type: 'select', option: 'four' })).toBe(state);
+    });
+
+    it('should select a created option missing from options', () => {
+      const state: SelectState<string> = { value: 'one', menuVisible: true };
+
+      expect(reducer(state, { type: 'create', option: 'four' })).toEqual({
+        value: 'four',
+        menuVisible: false,
+      });
+    });
+
+    it('should clear the selection', () => {
+      const state: SelectState<string> = { value: 'one', menuVisible: true };
+
+      expect(reducer(state, { type: 'clearSelected' })).toEqual({
+        value: undefined,
+        menuVisible: false,
+      });
+    });
+
+    it('should ignore deselect', () => {
+      const state: SelectState<string> = { value: 'one', menuVisible: true };
+
+      expect(reducer(state, { type: 'deselect', option: 'one' })).toBe(state);
+    });
+  });
+
+  describe('multi-select', () => {
+    const reducer = createSelectReducer({
+      multi: true,
+      options,
+      disabledFn: (option) => option === 'three',
+    });
+
+    it('should keep selection in options order', () => {
+      const state: SelectState<string> = {
+        value: ['two'],
+        menuVisible: true,
+      };
+
+      expect(reducer(state, { type: 'select', option: 'one' })).toEqual({
+        value: ['one', 'two'],
+        menuVisible: true,
+      });
+    });
+
+    it('should not select disabled options', () => {
+      const state: SelectState<string> = { menuVisible: true };
+
+      expect(
+        reducer(state, { type: 'selectMany', options: ['one', 'three'] })
+      ).toEqual({ value: ['one'], menuVisible: true });
+    });
+
+    it('should deselect options', () => {
+      const state: SelectState<string> = {
+        value: ['one', 'two'],
+        menuVisible: true,
+      };
+
+      expect(
+        reducer(state, { type: 'deselectMany', options: ['one', 'two'] })
+      ).toEqual({ value: [], menuVisible: true });
+    });
+
+    it('should keep selected values missing from options', () => {
+      const state: SelectState<string> = {
+        value: ['zero'],
+        menuVisible: true,
+      };
+
+      expect(reducer(state, { type: 'select', option: 'two' })).toEqual({
+        value: ['zero', 'two'],
+        menuVisible: true,
+      });
+    });
+  });
+
+  describe('selection limits', () => {
+    const reducer = createSelectReducer({
+      multi: true,
+      options,
+      minSelected: 1,
+      maxSelected: 2,
+    });
+
+    it('should only select up to maxSelected', () => {
+      const state: SelectState<string> = { value: ['one'], menuVisible: true };
+
+      expect(reducer(state, { type: 'selectMany', options })).toEqual({
+        value: ['one', 'two'],
+        menuVisible: true,
+      });
+    });
+
+    it('should block deselecting and clearing below minSelected', () => {
+      const state: SelectState<string> = { value: ['one'], menuVisible: true };
+
+      expect(reducer(state, { type: 'deselect', option: 'one' })).toBe(state);
+      expect(reducer(state, { type: 'clearSelected' })).toBe(state);
+    });
+  });
+
+  it('should open and close the menu', () => {
+    const reducer = createSelectReducer({ multi: false, options });
+    const state: SelectState<string> = { menuVisible: false };
+
+    expect(reducer(state, { type: 'closeMenu' })).toBe(state);
+    expect(reducer(state, { type: 'openMenu' })).toEqual({
+      menuVisible: true,
+    });
+  });
+
+  describe('confirm commit mode', () => {
+    const reducer = createSelectReducer({
+      multi: true,
+      options,
+      commitMode: 'confirm',
+    });
+
+    it('should hold changes in a draft until committed', () => {
+      let state: SelectState<string> = { value: ['one'], menuVisible: false };
+
+      state = reducer(state, { type: 'openMenu' });
+      state = reducer(state, { type: 'select', option: 'two' });
+
+      expect(state).toEqual({
+        value: ['one'],
+        draft: ['one', 'two'],
+        menuVisible: true,
+      });
+
+      expect(reducer(state, { type: 'commit' })).toEqual({
+        value: ['one', 'two'],
+        menuVisible: false,
+      });
+    });
+
+    it('should discard the draft when closed', () => {
+      let state: SelectState<string> = { value: ['one'], menuVisible: false };
+
+      state = reducer(state, { type: 'openMenu' });
+      state = reducer(state, { type: 'clearSelected' });
+
+      expect(reducer(state, { type: 'closeMenu' })).toEqual({
+        value: ['one'],
+        menuVisible: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { renderHook, waitFor, act } from '@testing-library/react-native';
+import { Keyboard, Platform } from 'react-native';
+
+import { useAnchorLayout } from '../useAnchorLayout';
+
+type Frame = [number, number, number, number];
+
+// Stands in for a native view, measured in window coordinates
+const measurable = (frame: () => Frame) => ({
+  current: {
+    measureInWindow: jest.fn(
+      (callback: (x: number, y: number, w: number, h: number) => void) =>
+        callback(...frame())
+    ),
+  },
+});
+
+describe('useAnchorLayout', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should measure the anchor relative to the container when active', async () => {
+    const anchorRef = measurable(() => [16, 420, 200, 56]);
+    const containerRef = measurable(() => [0, 20, 400, 780]);
+
+    const { result, rerender } = renderHook(
+      (props: { active: boolean }) =>
+        useAnchorLayout({ anchorRef, containerRef, ...props }),
+      { initialProps: { active: false } }
+    );
+
+    expect(anchorRef.current.measureInWindow).not.toHaveBeenCalled();
+
+    rerender({ active: true });
+
+    await waitFor(() =>
+      expect(result.current).toEqual({
+        anchor: { left: 16, top: 400, width: 200, height: 56 },
+        containerHeight: 780,
+      })
+    );
+  });
+
+  it('should measure again when the keyboard shows', async () => {
+    const listeners: Record<string, (...args: any[]) => void> = {};
+
+    jest
+      .spyOn(Keyboard, 'addListener')
+      .mockImplementation((event, listener) => {
+        listeners[event] = listener;
+
+        return { remove: jest.fn() } as any;
+      });
+
+    // Anchor moves up as a `KeyboardAvoidingView` parent makes room
+    let anchorTop = 600;
+
+    const anchorRef = measurable(() => [0, anchorTop, 200, 56]);
+    const containerRef = measurable(() => [0, 0, 400, 800]);
+
+    const { result } = renderHook(() =>
+      useAnchorLayout({ anchorRef, containerRef, active: true })
+    );
+
+    await waitFor(() => expect(result.current.anchor?.top).toBe(600));
+
+    anchorTop = 300;
+    listeners.keyboardDidShow?.({});
+
+    await waitFor(() => expect(result.current.anchor?.top).toBe(300));
+  });
+
+  it('should ignore measurements that arrive once inactive', async () => {
+    const anchorRef = measurable(() => [0, 100, 200, 56]);
+    const containerRef = measurable(() => [0, 0, 400, 800]);
+
+    const { result, rerender } = renderHook(
+      (props: { active: boolean }) =>
+        useAnchorLayout({ anchorRef, containerRef, ...props }),
+      { initialProps: { active: true } }
+    );
+
+    rerender({ active: false });
+
+    await act(() => Promise.resolve());
+
+    expect(result.current).toEqual({});
+  });
+
+  describe('on web', () => {
+    const platform = Platform.OS;
+
+    let listeners: ((event: { target: unknown }) => void)[];
+
+    beforeEach(() => {
+      Platform.OS = 'web';
+      listeners = [];
+
+      Object.assign(global, {
+        addEventListener: jest.fn((_type, listener) =>
+          listeners.push(listener)
+        ),
+        removeEventListener: jest.fn(),
+      });
+    });
+
+    afterEach(() => {
+      Platform.OS = platform;
+
+      const target = global as Partial<Record<string, unknown>>;
+
+      delete target.addEventListener;
+      delete target.removeEventListener;
+    });
+
+    it('should only measure again when the page scrolls', async () => {
+      const list = {};
+
+      const anchorRef = measurable(() => [0, 100, 200, 56]);
+      const containerRef = measurable(() => [0, 0, 400, 800]);
+
+      Object.assign(containerRef.current, {
+        contains: (node: unknown) => node === list,
+      });
+
+      const { result, unmount } = renderHook(() =>
+        useAnchorLayout({ anchorRef, containerRef, active: true })
+      );
+
+      await waitFor(() => expect(result.current.anchor?.top).toBe(100));
+
+      const layout = result.current;
+      const measured = anchorRef.current.measureInWindow.mock.calls.length;
+
+      // Scrolling the menu's own list doesn't move the anchor
+      await act(async () => listeners.forEach((fn) => fn({ target: list })));
+
+      expect(anchorRef.current.measureInWindow).toHaveBeenCalledTimes(measured);
+
+      // Nothing moved, so the same layout is kept
+      await act(async () => listeners.forEach((fn) => fn({ target: {} })));
+
+      expect(anchorRef.current.measureInWindow).toHaveBeenCalledTimes(
+        measured + 1
+      );
+      expect(result.current).toBe(layout);
+
+      unmount();
+
+      expect(
+        (global as unknown as { removeEventListener: jest.Mock })
+          .removeEventListener
+      ).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { renderHook, act } from '@testing-library/react-native';
+
+import { useMenuKeyboard, type MenuKeyboardConfig } from '../useMenuKeyboard';
+
+const options = ['Austria', 'Belgium', 'Brazil', 'Canada', 'Chile'];
+
+const key = (name: string, modifiers: { altKey?: boolean } = {}) => ({
+  key: name,
+  preventDefault: jest.fn(),
+  ...modifiers,
+});
+
+const setup = (config: Partial<MenuKeyboardConfig<string>> = {}) => {
+  const openMenu = jest.fn();
+  const closeMenu = jest.fn();
+  const activate = jest.fn();
+
+  const { result, rerender } = renderHook(
+    (props: { menuVisible: boolean }) =>
+      useMenuKeyboard({
+        options,
+        labelFn: (option) => option,
+        openMenu,
+        closeMenu,
+        activate,
+        ...config,
+        ...props,
+      }),
+    { initialProps: { menuVisible: false } }
+  );
+
+  // Open with the keyboard, as the select would in response to `openMenu`
+  const open = (name = 'Enter') => {
+    act(() => result.current.onKeyDown(key(name)));
+    rerender({ menuVisible: true });
+  };
+
+  const press = (name: string, modifiers?: { altKey?: boolean }) =>
+    act(() => result.current.onKeyDown(key(name, modifiers)));
+
+  return { result, open, press, openMenu, closeMenu, activate };
+};
+
+describe('useMenuKeyboard', () => {
+  it('should open the menu and highlight the first option', () => {
+    const { result, open, openMenu } = setup();
+
+    open();
+
+    expect(openMenu).toHaveBeenCalled();
+    expect(result.current.highlighted).toBe('Austria');
+  });
+
+  it('should start from the selected option', () => {
+    const { result, open } = setup({ selected: 'Canada' });
+
+    open(' ');
+
+    expect(result.current.highlighted).toBe('Canada');
+  });
+
+  it('should move the highlight, skipping disabled options', () => {
+    const { result, open, press } = setup({
+      disabledFn: (option) => option === 'Belgium',
+    });
+
+    open();
+    press('ArrowDown');
+
+    expect(result.current.highlighted).toBe('Brazil');
+
+    press('ArrowUp');
+
+    expect(result.current.highlighted).toBe('Austria');
+
+    press('End');
+
+    expect(result.current.highlighted).toBe('Chile');
+
+    press('Home');
+
+    expect(result.current.highlighted).toBe('Austria');
+
+    press('PageDown');
+
+    expect(result.current.highlighted).toBe('Chile');
+  });
+
+  it('should jump to options by typed prefix', () => {
+    const { result, open, press } = setup();
+
+    open();
+    press('c');
+
+    expect(result.current.highlighted).toBe('Canada');
+
+    press('h');
+
+    expect(result.current.highlighted).toBe('Chile');
+  });
+
+  it('should activate with Enter and close with Escape', () => {
+    const { open, press, activate, closeMenu } = setup();
+
+    open();
+    press('ArrowDown');
+    press('Enter');
+
+    expect(activate).toHaveBeenCalledWith('Belgium');
+
+    press('Escape');
+
+    expect(closeMenu).toHaveBeenCalled();
+  });
+});
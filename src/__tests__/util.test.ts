@@ -0,0 +1,159 @@
+import {
+  sortOptions,
+  defaultLabelFn,
+  defaultValueFn,
+  defaultChildrenFn,
+  flattenTree,
+  filterTree,
+  groupOptions,
+  applySelectionStrategy,
+  getDropdownPlacement,
+  getAutoMenuMode,
+} from '../util';
+
+const config = {
+  valueFn: defaultValueFn,
+  labelFn: defaultLabelFn,
+  isSelected: () => false,
+};
+
+describe('sortOptions', () => {
+  it('should sort labels with locale-aware collation', () => {
+    const options = ['zebra', 'Émile', 'apple', 'Eve', 'item 10', 'item 2'];
+
+    expect(sortOptions(options, 'label', { ...config, locale: 'en' })).toEqual([
+      'apple',
+      'Émile',
+      'Eve',
+      'item 2',
+      'item 10',
+      'zebra',
+    ]);
+  });
+
+  it('should sort selected options first', () => {
+    const options = ['c', 'b', 'a'];
+
+    expect(
+      sortOptions(options, 'selected-first', {
+        ...config,
+        isSelected: (option) => option === 'c',
+      })
+    ).toEqual(['c', 'a', 'b']);
+  });
+
+  it('should not mutate the options', () => {
+    const options = ['b', 'a'];
+
+    sortOptions(options, (opt1, opt2) => opt1.localeCompare(opt2), config);
+
+    expect(options).toEqual(['b', 'a']);
+  });
+});
+
+describe('applySelectionStrategy', () => {
+  type Node = { value: string; children?: Node[] };
+
+  const a1 = { value: 'a1' };
+  const a2 = { value: 'a2' };
+  const a = { value: 'a', children: [a1, a2] };
+  const b1 = { value: 'b1' };
+  const b = { value: 'b', children: [b1] };
+  const tree: Node[] = [a, b];
+
+  const leaves = [a1, a2];
+
+  it('should flatten nested children', () => {
+    expect(flattenTree(tree, defaultChildrenFn)).toEqual([a, a1, a2, b, b1]);
+  });
+
+  it('should filter to matches with their ancestors and descendants', () => {
+    expect(
+      filterTree(tree, defaultChildrenFn, (node) => node.value === 'a2')
+    ).toEqual([a, a2]);
+    expect(
+      filterTree(tree, defaultChildrenFn, (node) => node.value === 'a')
+    ).toEqual([a, a1, a2]);
+  });
+
+  it('should return selected leaves', () => {
+    expect(
+      applySelectionStrategy(tree, leaves, defaultChildrenFn, 'leaves')
+    ).toEqual([a1, a2]);
+  });
+
+  it('should return fully selected parents in place of descendants', () => {
+    expect(
+      applySelectionStrategy(tree, leaves, defaultChildrenFn, 'parents')
+    ).toEqual([a]);
+  });
+
+  it('should return parents and descendants', () => {
+    expect(
+      applySelectionStrategy(tree, leaves, defaultChildrenFn, 'all')
+    ).toEqual([a, a1, a2]);
+  });
+});
+
+describe('groupOptions', () => {
+  it('should group options in order of first appearance', () => {
+    expect(
+      groupOptions(['France', 'Japan', 'Germany'], (option) =>
+        option === 'Japan' ? 'Asia' : 'Europe'
+      )
+    ).toEqual([
+      { title: 'Europe', data: ['France', 'Germany'] },
+      { title: 'Asia', data: ['Japan'] },
+    ]);
+  });
+});
+
+describe('getDropdownPlacement', () => {
+  const anchor = { left: 0, width: 200, height: 56 };
+
+  it('should place below the anchor when there is room', () => {
+    expect(getDropdownPlacement({ ...anchor, top: 100 }, 800, 300)).toEqual({
+      placement: 'below',
+      top: 156,
+      maxHeight: 300,
+    });
+  });
+
+  it('should flip above the anchor when there is more room there', () => {
+    expect(getDropdownPlacement({ ...anchor, top: 600 }, 800, 300)).toEqual({
+      placement: 'above',
+      bottom: 200,
+      maxHeight: 300,
+    });
+  });
+
+  it('should clamp to the available space', () => {
+    expect(getDropdownPlacement({ ...anchor, top: 300 }, 800, 600)).toEqual({
+      placement: 'below',
+      top: 356,
+      maxHeight: 436,
+    });
+  });
+});
+
+describe('getAutoMenuMode', () => {
+  it('should fill the screen on narrow windows', () => {
+    expect(getAutoMenuMode(390, 5)).toBe('fullscreen');
+  });
+
+  it('should use a modal on medium windows', () => {
+    expect(getAutoMenuMode(768, 5)).toBe('modal');
+  });
+
+  it('should use a dropdown on wide windows, unless there are many options', () => {
+    expect(getAutoMenuMode(1280, 5)).toBe('dropdown');
+    expect(getAutoMenuMode(1280, 200)).toBe('modal');
+  });
+
+  it('should follow custom breakpoints', () => {
+    expect(getAutoMenuMode(500, 5, { fullScreen: 400 })).toBe('modal');
+    expect(
+      getAutoMenuMode(700, 80, { dropdown: 700, maxDropdownOptions: 100 })
+    ).toBe('dropdown');
+  });
+});
@@ -1,6 +1,33 @@
 export {
   PaperSelect,
   type PaperSelectProps,
+  type PaperSelectHandle,
   type PaperSelectSingleState,
   type PaperSelectMultiState,
+  type PaperSelectOptionState,
+  type PaperSelectMenuState,
 } from './PaperSelect';
+
+export {
+  usePaperSelect,
+  type UsePaperSelectProps,
+  type UsePaperSingleSelectProps,
+  type UsePaperMultiSelectProps,
+} from './usePaperSelect';
+
+export {
+  createSelectReducer,
+  type SelectState,
+  type SelectAction,
+  type SelectCloseReason,
+  type SelectReducerConfig,
+} from './selectReducer';
+
+export {
+  type LoadOptionsFn,
+  type LoadMorePagesFn,
+  type OptionsPage,
+  type PageCursor,
+} from './useOptionsLoader';
+
+export { type OptionsSort, type MenuBreakpoints } from './util';
@@ -0,0 +1,303 @@
+import { optionCompare } from './util';
+
+/** State of a select */
+export type SelectState<T> = {
+  /** The current selection, an array on a multi-select */
+  readonly value?: T | T[];
+
+  /** Indicates wether the menu is open or not */
+  readonly menuVisible: boolean;
+
+  /** Uncommitted selection while the menu is open with `commitMode: 'confirm'` */
+  readonly draft?: T | T[];
+};
+
+/** Reasons for the menu closing */
+export type SelectCloseReason =
+  | 'select'
+  | 'backdrop'
+  | 'ok'
+  | 'cancel'
+  | 'clear'
+  | 'programmatic';
+
+/** Actions that transition the state of a select */
+export type SelectAction<T> =
+  | { readonly type: 'openMenu' }
+  | { readonly type: 'closeMenu'; readonly reason?: SelectCloseReason }
+  | { readonly type: 'clearSelected' }
+  | { readonly type: 'reset' }
+  | { readonly type: 'commit' }
+  | { readonly type: 'select'; readonly option: T }
+  | { readonly type: 'create'; readonly option: T }
+  | { readonly type: 'deselect'; readonly option: T }
+  | { readonly type: 'selectMany'; readonly options: T[] }
+  | { readonly type: 'deselectMany'; readonly options: T[] }
+  | { readonly type: 'replaceSelected'; readonly options: T[] };
+
+/** Configuration for `createSelectReducer` */
+export type SelectReducerConfig<T> = {
+  /** Specifies if the select permits multiple selection */
+  readonly multi: boolean;
+
+  /** Options that may be selected */
+  readonly options?: ReadonlyArray<T>;
+
+  /** Callback to determine if an option is disabled */
+  readonly disabledFn?: (option: T) => boolean;
+
+  /** Permits clearing the selection, defaults to `true` */
+  readonly nullable?: boolean;
+
+  /** Minimum number of options to keep selected on a multi-select */
+  readonly minSelected?: number;
+
+  /** Maximum number of options that may be selected on a multi-select */
+  readonly maxSelected?: number;
+
+  /**
+   * When to apply selection changes made in the menu
+   *
+   * - `'immediate'`: changes are applied to `value` as they're made
+   * - `'confirm'`: changes are held in `draft` until a `commit` action, and discarded when the menu closes
+   */
+  readonly commitMode?: 'immediate' | 'confirm';
+};
+
+/**
+ * Creates a pure reducer for select state
+ *
+ * The reducer returns the same state object when an action results in no
+ * change, ie. when selecting an option that is not in `options`.
+ *
+ * @param config options and selection mode to validate actions against
+ * @returns the reducer function
+ */
+export const createSelectReducer = <T>(config: SelectReducerConfig<T>) => {
+  const {
+    multi,
+    options,
+    disabledFn,
+    nullable = true,
+    minSelected,
+    maxSelected,
+    commitMode = 'immediate',
+  } = config;
+
+  // Selection changes apply to the draft while it is open for confirmation
+  const isDrafting = (state: SelectState<T>) =>
+    commitMode === 'confirm' && state.menuVisible;
+
+  const getSelection = (state: SelectState<T>) =>
+    isDrafting(state) ? state.draft : state.value;
+
+  const setSelection = (
+    state: SelectState<T>,
+    selection: T | T[] | undefined
+  ): SelectState<T> =>
+    isDrafting(state)
+      ? { ...state, draft: selection }
+      : { ...state, value: selection };
+
+  const isOption = (option: T) =>
+    options?.some((opt) => optionCompare(opt, option)) ?? false;
+
+  const isDisabled = (option: T) => (disabledFn ? disabledFn(option) : false);
+
+  const isSelectable = (option: T) => isOption(option) && !isDisabled(option);
+
+  const selectMany = (state: SelectState<T>, toSelect: T[]) => {
+    if (!multi) {
+      return state;
+    }
+
+    const value = getSelection(state) as T[] | undefined;
+    const isSelected = (option: T) =>
+      value?.some((val) => optionCompare(val, option)) ?? false;
+
+    // Only select as many as permitted by `maxSelected`
+    const capacity =
+      maxSelected === undefined
+        ? toSelect.length
+        : Math.max(maxSelected - (value?.length ?? 0), 0);
+
+    const valid = toSelect
+      .filter((option) => isSelectable(option) && !isSelected(option))
+      .slice(0, capacity);
+
+    if (valid.length === 0) {
+      return state;
+    }
+
+    // Keep selected values missing from the current (ie. loaded) options
+    const missingValues = value?.filter((val) => !isOption(val)) ?? [];
+
+    const newValue = missingValues.concat(
+      options?.filter(
+        (option) =>
+          isSelected(option) ||
+          valid.some((selected) => optionCompare(selected, option))
+      ) ?? []
+    );
+
+    return setSelection(state, newValue);
+  };
+
+  const deselectMany = (state: SelectState<T>, toDeselect: T[]) => {
+    if (!multi) {
+      return state;
+    }
+
+    const value = getSelection(state) as T[] | undefined;
+
+    const newValue = value?.filter(
+      (val) =>
+        isDisabled(val) ||
+        !toDeselect.some((deselected) => optionCompare(val, deselected))
+    );
+
+    if (newValue === undefined || newValue.length === value?.length) {
+      return state;
+    }
+
+    // Deselecting below `minSelected` is blocked
+    if (minSelected !== undefined && newValue.length < minSelected) {
+      return state;
+    }
+
+    return setSelection(state, newValue);
+  };
+
+  return (state: SelectState<T>, action: SelectAction<T>): SelectState<T> => {
+    switch (action.type) {
+      case 'openMenu':
+        if (state.menuVisible) {
+          return state;
+        }
+
+        // Start a draft from the current selection
+        return commitMode === 'confirm'
+          ? { ...state, menuVisible: true, draft: state.value }
+          : { ...state, menuVisible: true };
+
+      case 'closeMenu':
+        // Uncommitted changes are discarded
+        return state.menuVisible
+          ? { value: state.value, menuVisible: false }
+          : state;
+
+      case 'commit':
+        return isDrafting(state)
+          ? { value: state.draft, menuVisible: false }
+          : state;
+
+      case 'clearSelected':
+        if (!nullable) {
+          return state;
+        }
+
+        if (multi && minSelected !== undefined && minSelected > 0) {
+          return state;
+        }
+
+        if (isDrafting(state)) {
+          return state.draft === undefined
+            ? state
+            : { ...state, draft: undefined };
+        }
+
+        return state.value === undefined && !state.menuVisible
+          ? state
+          : { value: undefined, menuVisible: false };
+
+      case 'reset':
+        // Unlike `clearSelected`, ignores `nullable` and selection limits
+        return state.value === undefined && !state.menuVisible
+          ? state
+          : { value: undefined, menuVisible: false };
+
+      case 'select':
+        if (multi) {
+          return selectMany(state, [action.option]);
+        }
+
+        // Already selected
+        if (optionCompare(getSelection(state), action.option)) {
+          return state;
+        }
+
+        if (!isSelectable(action.option)) {
+          return state;
+        }
+
+        // Keep menu open for confirmation
+        if (isDrafting(state)) {
+          return { ...state, draft: action.option };
+        }
+
+        // Close menu on selection with single select
+        return { value: action.option, menuVisible: false };
+
+      case 'create': {
+        // Newly created options are selected without checking `options`
+        if (multi) {
+          const value = getSelection(state) as T[] | undefined;
+
+          if (
+            maxSelected !== undefined &&
+            (value?.length ?? 0) >= maxSelected
+          ) {
+            return state;
+          }
+
+          return setSelection(state, (value ?? []).concat(action.option));
+        }
+
+        return isDrafting(state)
+          ? { ...state, draft: action.option }
+          : { value: action.option, menuVisible: false };
+      }
+
+      case 'deselect':
+        return deselectMany(state, [action.option]);
+
+      case 'selectMany':
+        return selectMany(state, action.options);
+
+      case 'deselectMany':
+        return deselectMany(state, action.options);
+
+      case 'replaceSelected': {
+        if (!multi) {
+          return state;
+        }
+
+        const value = getSelection(state) as T[] | undefined;
+
+        // Keep selected values missing from the current (ie. loaded) options
+        const missingValues = value?.filter((val) => !isOption(val)) ?? [];
+
+        const newValue = missingValues.concat(
+          options?.filter((option) =>
+            action.options.some((selected) => optionCompare(selected, option))
+          ) ?? []
+        );
+
+        if (
+          (maxSelected !== undefined && newValue.length > maxSelected) ||
+          (minSelected !== undefined && newValue.length < minSelected)
+        ) {
+          return state;
+        }
+
+        const unchanged =
+          newValue.length === (value?.length ?? 0) &&
+          newValue.every((val, index) => optionCompare(val, value?.[index]));
+
+        return unchanged ? state : setSelection(state, newValue);
+      }
+    }
+  };
+};
+
+export default createSelectReducer;
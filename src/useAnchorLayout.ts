@@ -0,0 +1,173 @@
+import * as React from 'react';
+
+import {
+  Keyboard,
+  Platform,
+  useWindowDimensions,
+  type View,
+} from 'react-native';
+
+import type { AnchorLayout } from './util';
+
+type Measurable = Pick<View, 'measureInWindow'>;
+
+export type AnchorLayoutConfig = {
+  /** The element to position relative to */
+  anchorRef: React.RefObject<Measurable>;
+
+  /**
+   * The container the positioned element is rendered in, ie. a portal
+   *
+   * Scroll events from within the container, such as the positioned element's own list, are ignored.
+   */
+  containerRef: React.RefObject<Measurable>;
+
+  /** Only measure, and track changes, while active (ie. menu is open) */
+  active: boolean;
+};
+
+export type AnchorLayoutResult = {
+  /** Layout of the anchor relative to the container */
+  anchor?: AnchorLayout;
+
+  /** Height of the container */
+  containerHeight?: number;
+};
+
+const measure = (ref: React.RefObject<Measurable>) =>
+  new Promise<AnchorLayout | undefined>((resolve) => {
+    if (ref.current === null) {
+      resolve(undefined);
+
+      return;
+    }
+
+    ref.current.measureInWindow((left, top, width, height) =>
+      resolve({ left, top, width, height })
+    );
+  });
+
+const isSameLayout = (
+  layout1: AnchorLayoutResult,
+  layout2: AnchorLayoutResult
+) =>
+  layout1.containerHeight === layout2.containerHeight &&
+  layout1.anchor?.top === layout2.anchor?.top &&
+  layout1.anchor?.left === layout2.anchor?.left &&
+  layout1.anchor?.width === layout2.anchor?.width &&
+  layout1.anchor?.height === layout2.anchor?.height;
+
+/**
+ * Measures an anchor relative to the container an element is positioned in
+ *
+ * Both are measured in window coordinates, which account for the scroll
+ * position of `ScrollView` parents on iOS, Android and web alike. The anchor
+ * is measured again when the window resizes or rotates, when the keyboard
+ * shows or hides (ie. in a `KeyboardAvoidingView`), and when the page scrolls
+ * on web.
+ */
+export const useAnchorLayout = (
+  config: AnchorLayoutConfig
+): AnchorLayoutResult => {
+  const { anchorRef, containerRef, active } = config;
+
+  const [result, setResult] = React.useState<AnchorLayoutResult>({});
+
+  const dimensions = useWindowDimensions();
+
+  // Measurements may resolve after deactivating, or unmounting
+  const isActive = React.useRef(active);
+
+  React.useEffect(() => {
+    isActive.current = active;
+
+    return () => {
+      isActive.current = false;
+    };
+  }, [active]);
+
+  const layout = React.useCallback(() => {
+    Promise.all([measure(anchorRef), measure(containerRef)]).then(
+      ([anchor, container]) => {
+        if (anchor === undefined || !isActive.current) {
+          return;
+        }
+
+        const next = {
+          anchor: {
+            ...anchor,
+            left: anchor.left - (container?.left ?? 0),
+            top: anchor.top - (container?.top ?? 0),
+          },
+          containerHeight: container?.height,
+        };
+
+        // Avoid re-rendering the positioned element when nothing moved
+        setResult((current) => (isSameLayout(current, next) ? current : next));
+      }
+    );
+  }, [anchorRef, containerRef]);
+
+  // Measure when activated, and again as the window resizes or rotates
+  React.useLayoutEffect(() => {
+    if (active) {
+      layout();
+    }
+  }, [active, dimensions.width, dimensions.height, layout]);
+
+  // Parents such as `KeyboardAvoidingView` move the anchor with the keyboard
+  React.useEffect(() => {
+    if (!active) {
+      return;
+    }
+
+    const subscriptions = [
+      Keyboard.addListener('keyboardDidShow', layout),
+      Keyboard.addListener('keyboardDidHide', layout),
+    ];
+
+    return () => subscriptions.forEach((subscription) => subscription.remove());
+  }, [active, layout]);
+
+  // Keep tracking the anchor as the page, or any container, scrolls on web
+  React.useEffect(() => {
+    if (Platform.OS !== 'web' || !active) {
+      return;
+    }
+
+    type ScrollListener = (event: { target: unknown }) => void;
+
+    // The browser window, without depending on DOM types
+    const target = global as unknown as {
+      addEventListener: (
+        type: string,
+        fn: ScrollListener,
+        capture: boolean
+      ) => void;
+      removeEventListener: (
+        type: string,
+        fn: ScrollListener,
+        capture: boolean
+      ) => void;
+    };
+
+    // Views are DOM nodes with react-native-web
+    const container = containerRef.current as unknown as {
+      contains?: (node: unknown) => boolean;
+    } | null;
+
+    const onScroll: ScrollListener = (event) => {
+      if (!container?.contains?.(event.target)) {
+        layout();
+      }
+    };
+
+    target.addEventListener('scroll', onScroll, true);
+
+    return () => target.removeEventListener('scroll', onScroll, true);
+  }, [active, layout, containerRef]);
+
+  return result;
+};
+
+export default useAnchorLayout;
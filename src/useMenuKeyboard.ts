@@ -0,0 +1,244 @@
+import * as React from 'react';
+
+import { optionCompare } from './util';
+
+/** Keyboard event, as received from react-native-web */
+export type MenuKeyboardEvent = {
+  readonly key: string;
+  readonly altKey?: boolean;
+  readonly ctrlKey?: boolean;
+  readonly metaKey?: boolean;
+  readonly preventDefault: () => void;
+};
+
+export type MenuKeyboardConfig<T> = {
+  /** Options in the order they are rendered in the menu */
+  options?: ReadonlyArray<T>;
+
+  /** Option to highlight when the menu opens, if any */
+  selected?: T;
+
+  labelFn: (option: T) => string | undefined;
+  disabledFn?: (option: T) => boolean;
+
+  /** Indicates wether the menu is open or not */
+  menuVisible: boolean;
+
+  openMenu: () => void;
+  closeMenu: () => void;
+
+  /** Selects, or toggles on a multi-select, the highlighted option */
+  activate: (option: T) => void;
+
+  /** Number of options to move with PageUp and PageDown */
+  pageSize?: number;
+
+  /** Time in ms after which a typed prefix is cleared */
+  typeaheadTimeout?: number;
+};
+
+/**
+ * Implements WAI-ARIA combobox keyboard behaviour for a select, moving a
+ * highlighted option with arrow keys and typeahead
+ */
+export const useMenuKeyboard = <T>(config: MenuKeyboardConfig<T>) => {
+  const {
+    options = [],
+    selected,
+    labelFn,
+    disabledFn,
+    menuVisible,
+    openMenu,
+    closeMenu,
+    activate,
+    pageSize = 10,
+    typeaheadTimeout = 500,
+  } = config;
+
+  const [highlightedIndex, setHighlightedIndex] = React.useState<number>();
+
+  // Characters typed in quick succession, matched against labels
+  const prefix = React.useRef('');
+  const prefixTime = React.useRef(0);
+
+  const isEnabled = (index: number) => {
+    const option = options[index];
+
+    return option !== undefined && !(disabledFn && disabledFn(option));
+  };
+
+  // Finds the nearest enabled option from `start`, moving in `step` direction
+  const findEnabled = (start: number, step: 1 | -1) => {
+    for (
+      let index = start;
+      index >= 0 && index < options.length;
+      index += step
+    ) {
+      if (isEnabled(index)) {
+        return index;
+      }
+    }
+
+    return undefined;
+  };
+
+  const first = () => findEnabled(0, 1);
+  const last = () => findEnabled(options.length - 1, -1);
+
+  // Options are only highlighted once the menu is opened with the keyboard
+  React.useEffect(() => {
+    if (!menuVisible) {
+      setHighlightedIndex(undefined);
+    }
+  }, [menuVisible]);
+
+  // Start from the selected option
+  const highlightSelected = () => {
+    const selectedIndex =
+      selected === undefined
+        ? -1
+        : options.findIndex((option) => optionCompare(option, selected));
+
+    setHighlightedIndex(
+      selectedIndex >= 0 && isEnabled(selectedIndex) ? selectedIndex : first()
+    );
+  };
+
+  const typeahead = (key: string) => {
+    const now = Date.now();
+
+    prefix.current =
+      now - prefixTime.current > typeaheadTimeout ? key : prefix.current + key;
+    prefixTime.current = now;
+
+    const query = prefix.current.toLocaleLowerCase();
+
+    // Repeating a character cycles through options starting with it
+    const start =
+      (highlightedIndex ?? -1) + (prefix.current.length === 1 ? 1 : 0);
+
+    for (let offset = 0; offset < options.length; offset++) {
+      const index = (Math.max(start, 0) + offset) % options.length;
+      const option = options[index];
+
+      if (
+        option !== undefined &&
+        isEnabled(index) &&
+        (labelFn(option) ?? '').toLocaleLowerCase().startsWith(query)
+      ) {
+        setHighlightedIndex(index);
+
+        return;
+      }
+    }
+  };
+
+  const isPrintable = (e: MenuKeyboardEvent) =>
+    e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey;
+
+  const onKeyDown = (e: MenuKeyboardEvent) => {
+    if (!menuVisible) {
+      if (
+        e.key === 'Enter' ||
+        e.key === ' ' ||
+        e.key === 'ArrowDown' ||
+        e.key === 'ArrowUp'
+      ) {
+        e.preventDefault();
+        openMenu();
+        highlightSelected();
+      } else if (isPrintable(e)) {
+        openMenu();
+        typeahead(e.key);
+      }
+
+      return;
+    }
+
+    const current = highlightedIndex;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlightedIndex(
+          current === undefined
+            ? first()
+            : findEnabled(current + 1, 1) ?? current
+        );
+        break;
+
+      case 'ArrowUp':
+        e.preventDefault();
+
+        if (e.altKey) {
+          current !== undefined && options[current] !== undefined
+            ? activate(options[current] as T)
+            : closeMenu();
+        } else {
+          setHighlightedIndex(
+            current === undefined
+              ? last()
+              : findEnabled(current - 1, -1) ?? current
+          );
+        }
+        break;
+
+      case 'Home':
+        e.preventDefault();
+        setHighlightedIndex(first());
+        break;
+
+      case 'End':
+        e.preventDefault();
+        setHighlightedIndex(last());
+        break;
+
+      case 'PageDown':
+        e.preventDefault();
+        setHighlightedIndex(
+          findEnabled(
+            Math.min((current ?? -1) + pageSize, options.length - 1),
+            -1
+          ) ?? current
+        );
+        break;
+
+      case 'PageUp':
+        e.preventDefault();
+        setHighlightedIndex(
+          findEnabled(Math.max((current ?? 0) - pageSize, 0), 1) ?? current
+        );
+        break;
+
+      case 'Enter':
+        e.preventDefault();
+
+        if (current !== undefined && options[current] !== undefined) {
+          activate(options[current] as T);
+        }
+        break;
+
+      case 'Escape':
+      case 'Tab':
+        e.key === 'Escape' && e.preventDefault();
+        closeMenu();
+        break;
+
+      default:
+        if (isPrintable(e)) {
+          e.preventDefault();
+          typeahead(e.key);
+        }
+    }
+  };
+
+  return {
+    highlighted:
+      !menuVisible || highlightedIndex === undefined
+        ? undefined
+        : options[highlightedIndex],
+    onKeyDown,
+  };
+};
+
+export default useMenuKeyboard;
@@ -0,0 +1,242 @@
+import * as React from 'react';
+
+/**
+ * Callback to load options asynchronously
+ *
+ * @param query the current search query, or an empty string
+ * @param opts.signal aborted when the request is superseded or no longer needed
+ * @param opts.parentValue the value of the parent select, if any
+ * @returns promise resolving to the options for the query
+ */
+export type LoadOptionsFn<T> = (
+  query: string,
+  opts: { signal: AbortSignal; parentValue?: unknown }
+) => Promise<T[]>;
+
+/** Cursor identifying a page of options, as returned by a previous page */
+export type PageCursor = string | number;
+
+/** A page of options returned from `loadMorePages` */
+export type OptionsPage<T> = {
+  /** The options in this page */
+  options: T[];
+
+  /** Cursor for the following page, or `undefined` if this is the last page */
+  nextCursor?: PageCursor;
+};
+
+/**
+ * Callback to load a page of options asynchronously
+ *
+ * @param cursor the `nextCursor` of the previous page, or `undefined` for the first page
+ * @param opts.query the current search query, or an empty string
+ * @param opts.signal aborted when the request is superseded or no longer needed
+ * @param opts.parentValue the value of the parent select, if any
+ * @returns promise resolving to the page of options
+ */
+export type LoadMorePagesFn<T> = (
+  cursor: PageCursor | undefined,
+  opts: { query: string; signal: AbortSignal; parentValue?: unknown }
+) => Promise<OptionsPage<T>>;
+
+type OptionsLoaderState<T> = {
+  options?: T[];
+  nextCursor?: PageCursor;
+  loading: boolean;
+  loadingMore: boolean;
+  error?: unknown;
+};
+
+export type OptionsLoaderConfig<T> = {
+  /** Callback used to load options */
+  loadOptions?: LoadOptionsFn<T>;
+
+  /** Callback used to load pages of options, takes precedence over `loadOptions` */
+  loadMorePages?: LoadMorePagesFn<T>;
+
+  /** The query to load options for */
+  query: string;
+
+  /** Value of the parent select, options are cached separately for each value */
+  parentValue?: unknown;
+
+  /** Only load options while active (ie. menu is open) */
+  active: boolean;
+
+  /** Delay in ms before loading options for a changed query */
+  delay: number;
+};
+
+const initialState = { loading: false, loadingMore: false };
+
+/**
+ * Loads options through a `loadOptions` or `loadMorePages` callback with
+ * debouncing, aborting of stale requests and a per-query cache
+ */
+export const useOptionsLoader = <T>(config: OptionsLoaderConfig<T>) => {
+  const { loadOptions, loadMorePages, query, parentValue, active, delay } =
+    config;
+
+  // Treat `loadOptions` as a loader for a single page
+  const loadPage: LoadMorePagesFn<T> | undefined = loadMorePages
+    ? loadMorePages
+    : loadOptions
+    ? (_cursor, { query: pageQuery, signal, parentValue: pageParent }) =>
+        loadOptions(pageQuery, { signal, parentValue: pageParent }).then(
+          (options) => ({ options })
+        )
+    : undefined;
+
+  // Keep latest callback in a ref so inline functions don't trigger reloads
+  const loadPageRef = React.useRef(loadPage);
+  loadPageRef.current = loadPage;
+
+  const cache = React.useRef(new Map<string, OptionsPage<T>>());
+
+  const [state, setState] = React.useState<OptionsLoaderState<T>>(initialState);
+
+  // Incremented to retry after an error
+  const [attempt, setAttempt] = React.useState(0);
+
+  // Controller for the pending request, if any
+  const controllerRef = React.useRef<AbortController>();
+
+  const enabled = loadPage !== undefined;
+
+  // Options are cached per query for each parent value
+  const cacheKey = `${JSON.stringify(parentValue) ?? ''}:${query}`;
+
+  // Keep latest parent value in a ref, changes are tracked through `cacheKey`
+  const parentValueRef = React.useRef(parentValue);
+  parentValueRef.current = parentValue;
+
+  React.useEffect(() => {
+    const load = loadPageRef.current;
+
+    if (!enabled || !active || load === undefined) {
+      return;
+    }
+
+    // Supersede any page still loading for a previous query
+    controllerRef.current?.abort();
+
+    const cached = cache.current.get(cacheKey);
+
+    if (cached !== undefined) {
+      setState({ ...initialState, ...cached });
+
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setState({ ...initialState, loading: true });
+
+    // Don't hold up the initial load when the menu opens
+    const timeout = setTimeout(
+      () => {
+        load(undefined, {
+          query,
+          signal: controller.signal,
+          parentValue: parentValueRef.current,
+        }).then(
+          (page) => {
+            if (controller.signal.aborted) {
+              return;
+            }
+
+            cache.current.set(cacheKey, page);
+            setState({ ...initialState, ...page });
+          },
+          (error) => {
+            if (controller.signal.aborted) {
+              return;
+            }
+
+            setState({ ...initialState, error });
+          }
+        );
+      },
+      query === '' ? 0 : delay
+    );
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [enabled, active, query, cacheKey, delay, attempt]);
+
+  const { options, nextCursor, loading, loadingMore } = state;
+
+  const loadMore = React.useCallback(() => {
+    const load = loadPageRef.current;
+
+    if (
+      load === undefined ||
+      nextCursor === undefined ||
+      loading ||
+      loadingMore
+    ) {
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setState((current) => ({
+      ...current,
+      loadingMore: true,
+      error: undefined,
+    }));
+
+    load(nextCursor, {
+      query,
+      signal: controller.signal,
+      parentValue: parentValueRef.current,
+    }).then(
+      (page) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        const merged = {
+          options: (options ?? []).concat(page.options),
+          nextCursor: page.nextCursor,
+        };
+
+        cache.current.set(cacheKey, merged);
+        setState({ ...initialState, ...merged });
+      },
+      (error) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        setState((current) => ({ ...current, loadingMore: false, error }));
+      }
+    );
+  }, [options, nextCursor, loading, loadingMore, query, cacheKey]);
+
+  // Abort a pending page when the menu closes or the component unmounts
+  React.useEffect(() => {
+    if (!active) {
+      controllerRef.current?.abort();
+    }
+  }, [active]);
+
+  React.useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const retry = React.useCallback(() => {
+    // Errors after the first page are retried by loading the page again
+    if (options !== undefined) {
+      loadMore();
+    } else {
+      setAttempt((current) => current + 1);
+    }
+  }, [options, loadMore]);
+
+  return { ...state, loadMore, retry };
+};
+
+export default useOptionsLoader;
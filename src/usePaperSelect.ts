@@ -0,0 +1,396 @@
+import * as React from 'react';
+
+import { Keyboard } from 'react-native';
+
+import type {
+  PaperSelectProps,
+  PaperSingleSelectProps,
+  PaperMultiSelectProps,
+  PaperSelectSingleState,
+  PaperSelectMultiState,
+} from './PaperSelect';
+import {
+  createSelectReducer,
+  type SelectAction,
+  type SelectCloseReason,
+  type SelectState,
+} from './selectReducer';
+import { optionCompare } from './util';
+
+/** Props handled by `usePaperSelect` */
+export const selectionPropKeys = [
+  'multi',
+  'value',
+  'defaultValue',
+  'onSelection',
+  'onSelectionCommit',
+  'commitMode',
+  'options',
+  'disabled',
+  'disabledFn',
+  'nullable',
+  'minSelected',
+  'maxSelected',
+  'onLimitReached',
+  'open',
+  'defaultOpen',
+  'onOpenChange',
+  'onOpen',
+  'onClose',
+  'onDismiss',
+] as const;
+
+type SelectionPropKeys = (typeof selectionPropKeys)[number];
+
+/** Props for `usePaperSelect` on a single-select */
+export type UsePaperSingleSelectProps<T> = Pick<
+  PaperSingleSelectProps<T>,
+  SelectionPropKeys
+>;
+
+/** Props for `usePaperSelect` on a multi-select */
+export type UsePaperMultiSelectProps<T> = Pick<
+  PaperMultiSelectProps<T>,
+  SelectionPropKeys
+>;
+
+/** Props for `usePaperSelect` */
+export type UsePaperSelectProps<T> =
+  | UsePaperSingleSelectProps<T>
+  | UsePaperMultiSelectProps<T>;
+
+/** Additional members returned from `usePaperSelect` */
+type UsePaperSelectExtras<T> = Pick<
+  PaperSelectMultiState<T>,
+  'selectMany' | 'deselectMany'
+> & {
+  /** Uncommitted selection while the menu is open with `commitMode: 'confirm'` */
+  readonly draft?: T | T[];
+
+  /**
+   * Dispatches an action to the underlying reducer
+   *
+   * @param action the action to dispatch
+   */
+  readonly dispatch: (action: SelectAction<T>) => void;
+};
+
+/** Assertion function for narrowing single-select prop types */
+export function assertSingle<T>(
+  props: any
+): asserts props is UsePaperSingleSelectProps<T> {
+  const valid =
+    (!Object.hasOwn(props, 'multi') ||
+      props.multi === undefined ||
+      props.multi === false) &&
+    (props.value === undefined || !Array.isArray(props.value)) &&
+    (props.defaultValue === undefined || !Array.isArray(props.defaultValue));
+
+  if (!valid) {
+    throw new TypeError(
+      '`value` and `defaultValue` must not be arrays if defined without `multi`.'
+    );
+  }
+}
+
+/** Assertion function for narrowing multi-select prop types */
+export function assertMulti<T>(
+  props: UsePaperSelectProps<T> | PaperSelectProps<T>
+): asserts props is UsePaperMultiSelectProps<T> {
+  const valid =
+    Object.hasOwn(props, 'multi') &&
+    (props.multi === true || props.multi === 'checkboxes') &&
+    (props.value === undefined || Array.isArray(props.value)) &&
+    (props.defaultValue === undefined || Array.isArray(props.defaultValue));
+
+  if (!valid) {
+    throw new TypeError(
+      '`value` and `defaultValue` must be arrays if defined with `multi`.'
+    );
+  }
+}
+
+/**
+ * Headless hook that manages the selection and menu state of a select
+ *
+ * Supports controlled and uncontrolled use in the same way as `PaperSelect`.
+ *
+ * ## Usage
+ * ```js
+ * const { selected, select, deselect } = usePaperSelect({
+ *   multi: true,
+ *   options: ['one', 'two', 'three'],
+ *   onSelection: (options) => console.log(options),
+ * });
+ * ```
+ *
+ * @param props selection props, as accepted by `PaperSelect`
+ * @returns current state and callback functions
+ */
+export function usePaperSelect<T>(
+  props: UsePaperSingleSelectProps<T>
+): PaperSelectSingleState<T> & UsePaperSelectExtras<T>;
+export function usePaperSelect<T>(
+  props: UsePaperMultiSelectProps<T>
+): PaperSelectMultiState<T> & UsePaperSelectExtras<T>;
+export function usePaperSelect<T>(
+  props: UsePaperSelectProps<T>
+): (PaperSelectSingleState<T> | PaperSelectMultiState<T>) &
+  UsePaperSelectExtras<T>;
+export function usePaperSelect<T>(props: UsePaperSelectProps<T>) {
+  const {
+    multi = false,
+    value: otherValue,
+    defaultValue,
+    options,
+    disabled = false,
+    disabledFn,
+    nullable = true,
+    minSelected,
+    maxSelected,
+    onLimitReached,
+    open,
+    defaultOpen = false,
+    onOpenChange,
+    onOpen,
+    onClose,
+    onDismiss,
+    commitMode = 'immediate',
+  } = props;
+
+  const [uncontrolledValue, setUncontrolledValue] = React.useState<
+    T | T[] | undefined
+  >(otherValue ?? defaultValue);
+
+  // Use value from props instead of local state when input is controlled
+  const isControlled = otherValue !== undefined;
+  const value = isControlled ? otherValue : uncontrolledValue;
+
+  const [uncontrolledOpen, setUncontrolledOpen] = React.useState(defaultOpen);
+
+  // Use menu visibility from props instead of local state when controlled
+  const isOpenControlled = open !== undefined;
+  const menuVisible = isOpenControlled ? open : uncontrolledOpen;
+
+  // Start a draft right away when the menu starts open
+  const [draft, setDraft] = React.useState<T | T[] | undefined>(() =>
+    menuVisible && commitMode === 'confirm' ? value : undefined
+  );
+
+  // Reason for the last requested close, reported once the menu closes
+  const closeReason = React.useRef<SelectCloseReason>();
+
+  // Counts close requests, to re-render once each request has been handled
+  const [closeRequests, setCloseRequests] = React.useState(0);
+
+  // Visibility last reported through `onOpen` and `onClose`
+  const reportedVisible = React.useRef(menuVisible);
+
+  React.useEffect(() => {
+    if (menuVisible === reportedVisible.current) {
+      return;
+    }
+
+    reportedVisible.current = menuVisible;
+
+    if (menuVisible) {
+      // Start a draft when opened through `open`
+      if (commitMode === 'confirm') {
+        setDraft(value);
+      }
+
+      onOpen && onOpen();
+    } else {
+      const reason = closeReason.current ?? 'programmatic';
+
+      // Uncommitted changes are discarded once the menu actually closes
+      setDraft(undefined);
+
+      onClose && onClose(reason);
+
+      if (reason === 'backdrop' || reason === 'cancel') {
+        onDismiss && onDismiss();
+      }
+    }
+
+    closeReason.current = undefined;
+  }, [menuVisible, commitMode, value, onOpen, onClose, onDismiss]);
+
+  // A close refused by a controlled `open` leaves no reason for a later close
+  React.useEffect(() => {
+    if (reportedVisible.current) {
+      closeReason.current = undefined;
+    }
+  }, [closeRequests]);
+
+  // Latest state, for actions dispatched after awaiting, ie. when creating an option
+  const latestState = React.useRef<SelectState<T>>({
+    value,
+    menuVisible,
+    draft,
+  });
+
+  React.useLayoutEffect(() => {
+    latestState.current = { value, menuVisible, draft };
+  });
+
+  const reducer = React.useMemo(
+    () =>
+      createSelectReducer({
+        multi: multi !== false,
+        options,
+        disabledFn,
+        nullable,
+        minSelected,
+        maxSelected,
+        commitMode,
+      }),
+    [multi, options, disabledFn, nullable, minSelected, maxSelected, commitMode]
+  );
+
+  // Determines if an action was blocked, or cut short, by a selection limit
+  const getLimitReached = (
+    state: SelectState<T>,
+    next: SelectState<T>,
+    action: SelectAction<T>
+  ) => {
+    const isDrafting = commitMode === 'confirm' && state.menuVisible;
+    const current = (isDrafting ? state.draft : state.value) as T[] | undefined;
+    const updated = (isDrafting ? next.draft : next.value) as T[] | undefined;
+
+    const selectedCount = (toCount: T[]) =>
+      toCount.filter((option) =>
+        current?.some((val) => optionCompare(val, option))
+      ).length;
+
+    const count = current?.length ?? 0;
+
+    switch (action.type) {
+      case 'select':
+      case 'create':
+      case 'selectMany': {
+        const toSelect =
+          action.type === 'selectMany' ? action.options : [action.option];
+        const requested = toSelect.length - selectedCount(toSelect);
+        const nextCount = updated?.length ?? 0;
+
+        return maxSelected !== undefined &&
+          requested > 0 &&
+          nextCount >= maxSelected &&
+          nextCount - count < requested
+          ? 'max'
+          : undefined;
+      }
+
+      case 'deselect':
+      case 'deselectMany':
+      case 'clearSelected': {
+        const removed =
+          action.type === 'clearSelected'
+            ? count
+            : selectedCount(
+                action.type === 'deselectMany'
+                  ? action.options
+                  : [action.option]
+              );
+
+        return minSelected !== undefined &&
+          next === state &&
+          removed > 0 &&
+          count - removed < minSelected
+          ? 'min'
+          : undefined;
+      }
+    }
+
+    return undefined;
+  };
+
+  const dispatch = (action: SelectAction<T>) => {
+    // Opening is the only action prevented when disabled
+    if (action.type === 'openMenu' && disabled) {
+      return;
+    }
+
+    const state = latestState.current;
+    const next = reducer(state, action);
+
+    if (multi && onLimitReached) {
+      const limit = getLimitReached(state, next, action);
+
+      limit && onLimitReached(limit);
+    }
+
+    // The draft is kept until the menu actually closes, which `open` may refuse
+    if (next.draft !== state.draft && next.menuVisible) {
+      setDraft(next.draft);
+    }
+
+    if (next.value !== state.value) {
+      // Keep track of value in local state when input is not controlled
+      if (!isControlled) {
+        setUncontrolledValue(next.value);
+      }
+
+      // Changes are committed as they're made, unless held for confirmation
+      if (multi) {
+        assertMulti(props);
+        props.onSelection && props.onSelection(next.value as T[] | undefined);
+        props.onSelectionCommit &&
+          props.onSelectionCommit(next.value as T[] | undefined);
+      } else {
+        assertSingle<T>(props);
+        props.onSelection && props.onSelection(next.value as T | undefined);
+        props.onSelectionCommit &&
+          props.onSelectionCommit(next.value as T | undefined);
+      }
+    }
+
+    if (next.menuVisible !== state.menuVisible) {
+      if (next.menuVisible) {
+        // Close keyboard to make best use of screen space
+        Keyboard.dismiss();
+      } else {
+        closeReason.current =
+          action.type === 'select' || action.type === 'create'
+            ? 'select'
+            : action.type === 'clearSelected'
+            ? 'clear'
+            : action.type === 'commit'
+            ? 'ok'
+            : action.type === 'closeMenu'
+            ? action.reason
+            : undefined;
+      }
+
+      // Keep track of menu visibility in local state when not controlled
+      if (!isOpenControlled) {
+        setUncontrolledOpen(next.menuVisible);
+      }
+
+      onOpenChange && onOpenChange(next.menuVisible);
+
+      if (!next.menuVisible) {
+        setCloseRequests((count) => count + 1);
+      }
+    }
+  };
+
+  return {
+    active: menuVisible,
+    selected: value,
+    openMenu: () => dispatch({ type: 'openMenu' }),
+    closeMenu: () => dispatch({ type: 'closeMenu' }),
+    clearSelected: () => dispatch({ type: 'clearSelected' }),
+    select: (option: T) => dispatch({ type: 'select', option }),
+    deselect: (option: T) => dispatch({ type: 'deselect', option }),
+    selectMany: (toSelect: T[]) =>
+      dispatch({ type: 'selectMany', options: toSelect }),
+    deselectMany: (toDeselect: T[]) =>
+      dispatch({ type: 'deselectMany', options: toDeselect }),
+    draft,
+    dispatch,
+  };
+}
+
+export default usePaperSelect;
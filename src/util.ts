@@ -52,3 +52,269 @@ export const defaultLabelFn = <T extends unknown>(option: T) => {
 
   return label ?? defaultValueFn(option);
 };
+
+export const labelMatchesQuery = (label: string | undefined, query: string) => {
+  if (label === undefined) {
+    return false;
+  }
+
+  return label.toLocaleLowerCase().includes(query.trim().toLocaleLowerCase());
+};
+
+export type OptionsSort<T> =
+  | 'label'
+  | 'value'
+  | 'selected-first'
+  | ((opt1: Readonly<T>, opt2: Readonly<T>) => number);
+
+export type SortOptionsConfig<T> = {
+  valueFn: (option: T) => string | undefined;
+  labelFn: (option: T) => string | undefined;
+  isSelected: (option: T) => boolean;
+  locale?: string | string[];
+};
+
+export const sortOptions = <T extends unknown>(
+  options: ReadonlyArray<T>,
+  sort: OptionsSort<T>,
+  config: SortOptionsConfig<T>
+) => {
+  const { valueFn, labelFn, isSelected, locale } = config;
+
+  if (typeof sort === 'function') {
+    return [...options].sort(sort);
+  }
+
+  // Compare accented and mixed-case text as a reader would
+  const collator = new Intl.Collator(locale, {
+    sensitivity: 'base',
+    numeric: true,
+  });
+
+  const byText = (textFn: (option: T) => string | undefined) => {
+    return (opt1: T, opt2: T) =>
+      collator.compare(textFn(opt1) ?? '', textFn(opt2) ?? '');
+  };
+
+  const byLabel = byText(labelFn);
+
+  switch (sort) {
+    case 'label':
+      return [...options].sort(byLabel);
+
+    case 'value':
+      return [...options].sort(byText(valueFn));
+
+    case 'selected-first':
+      return [...options].sort(
+        (opt1, opt2) =>
+          Number(isSelected(opt2)) - Number(isSelected(opt1)) ||
+          byLabel(opt1, opt2)
+      );
+  }
+};
+
+export type ChildrenFn<T> = (option: T) => ReadonlyArray<T> | undefined;
+
+export type SelectionStrategy = 'leaves' | 'parents' | 'all';
+
+export const defaultChildrenFn = <T extends unknown>(option: T) => {
+  if (typeof option !== 'object' || option === null) {
+    return undefined;
+  }
+
+  const children = objectGetProperty(option, 'children');
+
+  return Array.isArray(children) ? (children as T[]) : undefined;
+};
+
+export const flattenTree = <T extends unknown>(
+  options: ReadonlyArray<T>,
+  childrenFn: ChildrenFn<T>
+): T[] =>
+  options.flatMap((option) => [
+    option,
+    ...flattenTree(childrenFn(option) ?? [], childrenFn),
+  ]);
+
+export const getLeaves = <T extends unknown>(
+  option: T,
+  childrenFn: ChildrenFn<T>
+): T[] => {
+  const children = childrenFn(option);
+
+  return children?.length
+    ? children.flatMap((child) => getLeaves(child, childrenFn))
+    : [option];
+};
+
+// Keeps options in a tree that match, along with their ancestors and descendants
+export const filterTree = <T extends unknown>(
+  options: ReadonlyArray<T>,
+  childrenFn: ChildrenFn<T>,
+  predicate: (option: T) => boolean
+): T[] =>
+  options.flatMap((option) => {
+    if (predicate(option)) {
+      return flattenTree([option], childrenFn);
+    }
+
+    const descendants = filterTree(
+      childrenFn(option) ?? [],
+      childrenFn,
+      predicate
+    );
+
+    return descendants.length > 0 ? [option, ...descendants] : [];
+  });
+
+// Converts selected leaves into the selection returned by the strategy
+export const applySelectionStrategy = <T extends unknown>(
+  options: ReadonlyArray<T>,
+  leaves: ReadonlyArray<T>,
+  childrenFn: ChildrenFn<T>,
+  strategy: SelectionStrategy
+): T[] => {
+  const isSelected = (leaf: T) =>
+    leaves.some((sel) => optionCompare(sel, leaf));
+
+  return options.flatMap((option) => {
+    const children = childrenFn(option) ?? [];
+
+    if (children.length === 0) {
+      return isSelected(option) ? [option] : [];
+    }
+
+    const descendants = applySelectionStrategy(
+      children,
+      leaves,
+      childrenFn,
+      strategy
+    );
+
+    if (
+      strategy === 'leaves' ||
+      !getLeaves(option, childrenFn).every(isSelected)
+    ) {
+      return descendants;
+    }
+
+    return strategy === 'parents' ? [option] : [option, ...descendants];
+  });
+};
+
+export type OptionSection<T> = {
+  title: string;
+  data: T[];
+};
+
+// Splits options into sections, in order of first appearance of each group
+export const groupOptions = <T extends unknown>(
+  options: ReadonlyArray<T>,
+  groupBy: (option: T) => string
+): OptionSection<T>[] => {
+  const groups = new Map<string, T[]>();
+
+  options.forEach((option) => {
+    const title = groupBy(option);
+
+    groups.set(title, (groups.get(title) ?? []).concat(option));
+  });
+
+  return Array.from(groups, ([title, data]) => ({ title, data }));
+};
+
+// Copies an object without the given keys, ie. to pass the remaining props to a view
+export const omit = <P extends object, K extends PropertyKey>(
+  props: P,
+  keys: ReadonlyArray<K>
+) =>
+  Object.fromEntries(
+    Object.entries(props).filter(([key]) => !keys.includes(key as K))
+  ) as Omit<P, K>;
+
+export type AnchorLayout = {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+};
+
+export type DropdownPlacement = {
+  placement: 'below' | 'above';
+
+  /** Offset from the top of the container when placed below */
+  top?: number;
+
+  /** Offset from the bottom of the container when placed above */
+  bottom?: number;
+
+  maxHeight: number;
+};
+
+// Places a dropdown below its anchor, or above it when there is more room there
+export const getDropdownPlacement = (
+  anchor: AnchorLayout,
+  containerHeight: number,
+  maxDropdownHeight: number,
+  margin = 8
+): DropdownPlacement => {
+  const spaceBelow = Math.max(
+    containerHeight - (anchor.top + anchor.height) - margin,
+    0
+  );
+  const spaceAbove = Math.max(anchor.top - margin, 0);
+
+  if (spaceBelow < maxDropdownHeight && spaceAbove > spaceBelow) {
+    return {
+      placement: 'above',
+      bottom: containerHeight - anchor.top,
+      maxHeight: Math.min(maxDropdownHeight, spaceAbove),
+    };
+  }
+
+  return {
+    placement: 'below',
+    top: anchor.top + anchor.height,
+    maxHeight: Math.min(maxDropdownHeight, spaceBelow),
+  };
+};
+
+export type MenuBreakpoints = {
+  /** Windows narrower than this render the menu as a full-screen dialog, ie. phones */
+  fullScreen?: number;
+
+  /** Windows at least this wide render the menu as a dropdown, ie. desktop web */
+  dropdown?: number;
+
+  /** Menus with more options than this render as a modal, even in wide windows */
+  maxDropdownOptions?: number;
+};
+
+export const defaultMenuBreakpoints: Required<MenuBreakpoints> = {
+  fullScreen: 600,
+  dropdown: 840,
+  maxDropdownOptions: 50,
+};
+
+// Picks how to render a menu for the current window width and number of options
+export const getAutoMenuMode = (
+  windowWidth: number,
+  optionCount: number,
+  breakpoints: MenuBreakpoints = {}
+): 'fullscreen' | 'modal' | 'dropdown' => {
+  const { fullScreen, dropdown, maxDropdownOptions } = {
+    ...defaultMenuBreakpoints,
+    ...breakpoints,
+  };
+
+  if (windowWidth < fullScreen) {
+    return 'fullscreen';
+  }
+
+  if (windowWidth >= dropdown && optionCount <= maxDropdownOptions) {
+    return 'dropdown';
+  }
+
+  return 'modal';
+};